@@ -1,15 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Image, ActivityIndicator, TouchableOpacity } from 'react-native';
 import Animated, { useSharedValue, useAnimatedStyle, withSpring } from 'react-native-reanimated';
+import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useSpotify } from '@/contexts/SpotifyContext';
-import { useQueueShuffleMutation, useSpotifyDevices, usePlaylistProgress, useActiveQueuePlaylistId } from '@/hooks/useSpotifyQueries';
-import { Music, Play, AlertCircle } from 'lucide-react-native';
-import AlertModal from '@/components/AlertModal';
+import {
+  useQueueShuffleMutation,
+  useSpotifyDevices,
+  usePlaylistProgress,
+  useActiveQueuePlaylistId,
+  useInterruptedQueue,
+  useInterruptedQueueMutation,
+  usePlaylistsProgress,
+  useRecentPlaylists,
+  usePlaylistListOptions,
+  useUpdatePlaylistListOptionsMutation,
+  type QueueShuffleParams,
+} from '@/hooks/useSpotifyQueries';
+import { Music, Play, AlertCircle, Blend, Timer, ListOrdered, Library } from 'lucide-react-native';
+import AlertModal, { getAlertTypeForError, type AlertType } from '@/components/AlertModal';
 import PlaylistProgressIndicator from '@/components/PlaylistProgressIndicator';
+import ShuffleSettingsModal from '@/components/ShuffleSettingsModal';
+import BlendBuilderModal from '@/components/BlendBuilderModal';
+import TimedSessionModal from '@/components/TimedSessionModal';
+import QueueControlBar from '@/components/QueueControlBar';
+import InterruptedQueueModal from '@/components/InterruptedQueueModal';
+import AddSourceModal from '@/components/AddSourceModal';
+import PlaylistListControls from '@/components/PlaylistListControls';
 import { hasQueuedSongs, openSpotifyApp } from '@/utils/spotify';
 import { initializeNotifications } from '@/utils/notificationService';
 import { addRecentPlaylist } from '@/utils/recentPlaylists';
 import { isQueueActive } from '@/services/queueBackgroundService';
+import { resumeListeningMonitor, getPendingSessionTrackIds } from '@/services/listeningSessionMonitor';
+import { getTrackSourceProvider } from '@/utils/trackSources';
+import {
+  filterAndSortPlaylists,
+  needsPlaylistProgress,
+  DEFAULT_PLAYLIST_LIST_OPTIONS,
+} from '@/utils/playlistListOptions';
 import type { SpotifyPlaylist } from '@/types/spotify';
 
 // Helper function to get time-based greeting
@@ -27,19 +54,24 @@ function getTimeBasedGreeting(): string {
   }
 }
 
+// Per-shuffle options that survive the device/queue checks
+type ShuffleRequest = Pick<QueueShuffleParams, 'seed' | 'targetMinutes' | 'saveAsPlaylist'>;
+
 // Animated Playlist Card Component
 function AnimatedPlaylistCard({
   playlist,
   isLoading,
   isDisabled,
   isQueueing,
-  onPress
+  onPress,
+  onLongPress
 }: {
   playlist: SpotifyPlaylist;
   isLoading: boolean;
   isDisabled: boolean;
   isQueueing: boolean;
   onPress: () => void;
+  onLongPress: () => void;
 }) {
   const scale = useSharedValue(1);
 
@@ -81,7 +113,7 @@ function AnimatedPlaylistCard({
       return 'Queueing tracks...';
     }
 
-    const baseText = `${playlist.tracks.total} tracks • ${playlist.owner.display_name}`;
+    const baseText = `${playlist.tracks.total} tracks • ${playlist.owner.display_name ?? playlist.owner.id}`;
 
     // Add unheard count if we have progress stats
     if (progressStats && progressStats.remaining > 0) {
@@ -94,6 +126,7 @@ function AnimatedPlaylistCard({
   return (
     <Pressable
       onPress={onPress}
+      onLongPress={onLongPress}
       onPressIn={handlePressIn}
       onPressOut={handlePressOut}
       disabled={isDisabled}
@@ -152,20 +185,54 @@ export default function HomeTab() {
     isLoading,
     user,
     allPlaylistsWithLiked,
+    blendPlaylists,
+    trackSourcePlaylists,
     playlistsLoading,
     savedTracksLoading,
     needsReauth,
     login
   } = useSpotify();
+  const router = useRouter();
+
+  // Shuffles started from the playlist detail screen arrive as params
+  const { shuffle: shuffleParam, minutes: minutesParam } = useLocalSearchParams<{ shuffle?: string; minutes?: string }>();
 
   // Alert modal state
-  const [alertModal, setAlertModal] = useState({
+  const [alertModal, setAlertModal] = useState<{
+    isVisible: boolean;
+    type: AlertType;
+    pendingPlaylist: SpotifyPlaylist | null;
+    queueCount: number;
+    message?: string;
+  }>({
     isVisible: false,
-    type: 'generic' as 'no-device' | 'queue-not-empty' | 'generic',
-    pendingPlaylist: null as SpotifyPlaylist | null,
+    type: 'generic',
+    pendingPlaylist: null,
     queueCount: 0,
   });
 
+  // Playlist whose shuffle settings are open (long-press on a card)
+  const [settingsPlaylist, setSettingsPlaylist] = useState<SpotifyPlaylist | null>(null);
+  const [isBlendBuilderVisible, setIsBlendBuilderVisible] = useState(false);
+  const [isTimedSessionVisible, setIsTimedSessionVisible] = useState(false);
+  const [isAddSourceVisible, setIsAddSourceVisible] = useState(false);
+
+  // Search, filter and sort of the playlist list (filter and sort persist between sessions)
+  const [searchQuery, setSearchQuery] = useState('');
+  const { data: listOptions = DEFAULT_PLAYLIST_LIST_OPTIONS } = usePlaylistListOptions();
+  const { mutate: updateListOptions } = useUpdatePlaylistListOptionsMutation();
+  const { data: recentPlaylistIds = [] } = useRecentPlaylists(isAuthenticated && listOptions.sort === 'recent');
+  const playlistProgress = usePlaylistsProgress(allPlaylistsWithLiked, isAuthenticated && needsPlaylistProgress(listOptions));
+  const visiblePlaylists = filterAndSortPlaylists(allPlaylistsWithLiked, listOptions, {
+    query: searchQuery,
+    userId: user?.id,
+    progress: playlistProgress,
+    recentPlaylistIds,
+  });
+
+  // Options of the shuffle waiting on an alert, so retries keep the seed / session length
+  const pendingRequestRef = useRef<ShuffleRequest>({});
+
   // Queue mutation (now uses notifications)
   const { mutate: shufflePlaylist, isPending } = useQueueShuffleMutation();
 
@@ -175,6 +242,15 @@ export default function HomeTab() {
   // Active queue playlist ID for showing loading state
   const { data: activeQueuePlaylistId } = useActiveQueuePlaylistId();
 
+  // Queue left unfinished by an app kill - offered for resume or rollback
+  const { data: interruptedQueue } = useInterruptedQueue(isAuthenticated);
+  const { mutate: handleInterruptedQueue, isPending: isHandlingInterrupted } = useInterruptedQueueMutation();
+  const [isInterruptedDismissed, setIsInterruptedDismissed] = useState(false);
+  const [interruptedError, setInterruptedError] = useState<string | undefined>();
+
+  // An interrupted queue isn't running, so it shouldn't spin (tapping a card reopens the prompt)
+  const runningQueuePlaylistId = interruptedQueue ? null : activeQueuePlaylistId;
+
   // Initialize notifications on mount
   useEffect(() => {
     initializeNotifications().then(hasPermission => {
@@ -182,18 +258,32 @@ export default function HomeTab() {
         console.log('[HomeTab] Notification permissions not granted');
       }
     });
+
+    // Pick up listening sessions from a previous app run so heard tracks keep being tracked
+    resumeListeningMonitor();
   }, []);
 
   const handleLogin = async () => {
     await login();
   };
 
-  const handlePlaylistSelect = async (playlist: SpotifyPlaylist) => {
+  const handlePlaylistSelect = async (playlist: SpotifyPlaylist, request: ShuffleRequest = {}) => {
+    pendingRequestRef.current = request;
+
     try {
       // ✅ Check if a queue is already processing
       const queueIsActive = await isQueueActive();
       if (queueIsActive) {
-        console.log('[HomeTab] Queue already active, ignoring playlist selection');
+        // An interrupted queue blocks new ones until the user decides what to do with it
+        if (interruptedQueue) {
+          setIsInterruptedDismissed(false);
+          return;
+        }
+
+        // Another set is being queued - line this one up behind it (no device or queue checks needed)
+        console.log('[HomeTab] Queue already active, lining up playlist as the next job');
+        await addRecentPlaylist(playlist.id);
+        proceedWithShuffle(playlist, request);
         return;
       }
 
@@ -213,8 +303,8 @@ export default function HomeTab() {
         }
       }
 
-      // Check if queue has songs
-      const queueStatus = await hasQueuedSongs();
+      // Check if queue has songs (other than Flux's own earlier sets)
+      const queueStatus = await hasQueuedSongs(await getPendingSessionTrackIds());
       if (queueStatus.hasQueue) {
         setAlertModal({
           isVisible: true,
@@ -229,17 +319,38 @@ export default function HomeTab() {
       await addRecentPlaylist(playlist.id);
 
       // All checks passed, proceed with shuffle
-      proceedWithShuffle(playlist);
+      proceedWithShuffle(playlist, request);
     } catch (error) {
       console.error('Error checking prerequisites:', error);
       // If checks fail, still allow the user to try
-      proceedWithShuffle(playlist);
+      proceedWithShuffle(playlist, request);
     }
   };
 
-  const proceedWithShuffle = (playlist: SpotifyPlaylist) => {
+  // Saving a set as a playlist needs no device and leaves the Spotify queue alone, so the checks are skipped
+  const handleSaveAsPlaylist = async (playlist: SpotifyPlaylist) => {
+    pendingRequestRef.current = { saveAsPlaylist: true };
+    await addRecentPlaylist(playlist.id);
+    proceedWithShuffle(playlist, { saveAsPlaylist: true });
+  };
+
+  const proceedWithShuffle = (playlist: SpotifyPlaylist, request: ShuffleRequest) => {
     // Simply trigger the mutation - notifications will handle UI feedback
-    shufflePlaylist({ playlist });
+    // Errors the user can act on (no device, reconnect, offline, ...) also get an alert
+    shufflePlaylist({ playlist, ...request }, {
+      onError: (error) => {
+        const type = getAlertTypeForError(error);
+        if (!type) return;
+
+        setAlertModal({
+          isVisible: true,
+          type,
+          pendingPlaylist: playlist,
+          queueCount: 0,
+          message: type === 'rate-limited' && error instanceof Error ? error.message : undefined,
+        });
+      },
+    });
   };
 
   const handleAlertPrimaryAction = async () => {
@@ -249,8 +360,9 @@ export default function HomeTab() {
     if (type === 'no-device') {
       setAlertModal({ isVisible: false, type: 'generic', pendingPlaylist: null, queueCount: 0 });
 
-      // Open Spotify app to the specific playlist
-      const playlistId = pendingPlaylist?.id === 'liked-songs' ? 'liked-songs' : pendingPlaylist?.id;
+      // Open Spotify app to the specific playlist (blends and added sources only exist in Flux, so just open the app)
+      const sourceKind = pendingPlaylist ? getTrackSourceProvider(pendingPlaylist.id).kind : undefined;
+      const playlistId = sourceKind === 'playlist' || sourceKind === 'liked-songs' ? pendingPlaylist?.id : undefined;
       await openSpotifyApp(playlistId);
       
       // Wait longer for Spotify to start up and register device, then retry with multiple attempts
@@ -268,7 +380,7 @@ export default function HomeTab() {
 
         if (hasDevice) {
           // Device found! Proceed with shuffle
-          await handlePlaylistSelect(pendingPlaylist);
+          await handlePlaylistSelect(pendingPlaylist, pendingRequestRef.current);
         } else if (attempt < maxAttempts) {
           // No device yet, try again
           console.log(`[HomeTab] No device found on attempt ${attempt}, retrying...`);
@@ -286,6 +398,12 @@ export default function HomeTab() {
       };
       
       retryWithBackoff(1, 3);
+    } else if (type === 'reauth-required') {
+      setAlertModal({ isVisible: false, type: 'generic', pendingPlaylist: null, queueCount: 0 });
+      await login();
+    } else if (type === 'premium-required') {
+      // Nothing to retry - playback control needs a Premium account
+      setAlertModal({ isVisible: false, type: 'generic', pendingPlaylist: null, queueCount: 0 });
     } else {
       // For other alerts, just close and retry
       setAlertModal({ isVisible: false, type: 'generic', pendingPlaylist: null, queueCount: 0 });
@@ -294,11 +412,28 @@ export default function HomeTab() {
         // Refetch devices before retrying
         await refetchDevices();
         // Re-run the checks and proceed if they pass
-        await handlePlaylistSelect(pendingPlaylist);
+        await handlePlaylistSelect(pendingPlaylist, pendingRequestRef.current);
       }
     }
   };
 
+  const handleResumeInterrupted = (deviceId: string) => {
+    setInterruptedError(undefined);
+    handleInterruptedQueue({ type: 'resume', deviceId }, {
+      onSuccess: (resumed) => {
+        if (!resumed) {
+          setInterruptedError("Couldn't reach that device. Pick another one or open Spotify on it.");
+          refetchDevices();
+        }
+      },
+    });
+  };
+
+  const handleRollBackInterrupted = () => {
+    setInterruptedError(undefined);
+    handleInterruptedQueue({ type: 'rollback' });
+  };
+
   const handleAlertClose = () => {
     setAlertModal({ isVisible: false, type: 'generic', pendingPlaylist: null, queueCount: 0 });
   };
@@ -310,6 +445,19 @@ export default function HomeTab() {
     }
   }, [isAuthenticated, isLoading]);
 
+  // Run a shuffle requested by the detail screen through the same checks as a card tap
+  useEffect(() => {
+    if (!shuffleParam || !isAuthenticated) return;
+
+    const playlist = allPlaylistsWithLiked.find(p => p.id === shuffleParam);
+    if (!playlist) return;
+
+    router.setParams({ shuffle: undefined, minutes: undefined });
+    handlePlaylistSelect(playlist, minutesParam ? { targetMinutes: Number(minutesParam) } : {});
+    // Only react to new params - the handler is recreated on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shuffleParam, minutesParam, isAuthenticated, allPlaylistsWithLiked]);
+
   if (isLoading) {
     return (
       <View style={styles.centerContainer}>
@@ -339,7 +487,41 @@ export default function HomeTab() {
         <View style={styles.headerContainer}>
           <View style={styles.header}>
             <Text style={styles.greetingText}>{getTimeBasedGreeting()}, {user?.display_name}</Text>
-            <Text style={styles.headerSubtext}>Choose a playlist to shuffle</Text>
+            <Text style={styles.headerSubtext}>Choose a playlist to shuffle • Long-press for settings</Text>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.headerAction}
+                onPress={() => setIsBlendBuilderVisible(true)}
+                activeOpacity={0.8}
+              >
+                <Blend size={16} color="#1DB954" />
+                <Text style={styles.headerActionText}>Create blend</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerAction}
+                onPress={() => setIsAddSourceVisible(true)}
+                activeOpacity={0.8}
+              >
+                <Library size={16} color="#1DB954" />
+                <Text style={styles.headerActionText}>Add source</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerAction}
+                onPress={() => setIsTimedSessionVisible(true)}
+                activeOpacity={0.8}
+              >
+                <Timer size={16} color="#1DB954" />
+                <Text style={styles.headerActionText}>Timed session</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerAction}
+                onPress={() => router.push('/jobs')}
+                activeOpacity={0.8}
+              >
+                <ListOrdered size={16} color="#1DB954" />
+                <Text style={styles.headerActionText}>Jobs</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
 
@@ -362,6 +544,18 @@ export default function HomeTab() {
           </View>
         )}
 
+        {/* Pause / resume / cancel for the background queue */}
+        <QueueControlBar />
+
+        {allPlaylistsWithLiked.length > 0 && (
+          <PlaylistListControls
+            query={searchQuery}
+            options={listOptions}
+            onQueryChange={setSearchQuery}
+            onOptionsChange={updateListOptions}
+          />
+        )}
+
         {playlistsLoading ? (
           <View style={styles.centerContainer}>
             <ActivityIndicator size="large" color="#1DB954" />
@@ -373,19 +567,23 @@ export default function HomeTab() {
           </View>
         ) : (
           <View style={styles.playlistGrid}>
-            {allPlaylistsWithLiked.map((playlist) => {
+            {visiblePlaylists.length === 0 && (
+              <Text style={styles.emptyListText}>No playlists match</Text>
+            )}
+            {visiblePlaylists.map((playlist) => {
               const isLikedSongs = playlist.id === 'liked-songs';
               const isLikedSongsLoading = isLikedSongs && savedTracksLoading;
-              const isThisPlaylistQueueing = activeQueuePlaylistId === playlist.id;
+              const isThisPlaylistQueueing = runningQueuePlaylistId === playlist.id;
 
               return (
                 <AnimatedPlaylistCard
                   key={playlist.id}
                   playlist={playlist}
                   isLoading={isLikedSongsLoading}
-                  isDisabled={isPending || isLikedSongsLoading || !!activeQueuePlaylistId}
+                  isDisabled={isPending || isLikedSongsLoading}
                   isQueueing={isThisPlaylistQueueing}
                   onPress={() => handlePlaylistSelect(playlist)}
+                  onLongPress={() => setSettingsPlaylist(playlist)}
                 />
               );
             })}
@@ -398,10 +596,71 @@ export default function HomeTab() {
         isVisible={alertModal.isVisible}
         type={alertModal.type}
         queueCount={alertModal.queueCount}
+        message={alertModal.message}
         onPrimaryPress={handleAlertPrimaryAction}
         onSecondaryPress={handleAlertClose}
         onClose={handleAlertClose}
       />
+
+      {/* Per-playlist shuffle settings */}
+      <ShuffleSettingsModal
+        isVisible={!!settingsPlaylist}
+        playlist={settingsPlaylist}
+        onClose={() => setSettingsPlaylist(null)}
+        onReplaySet={(playlist, seed) => {
+          setSettingsPlaylist(null);
+          handlePlaylistSelect(playlist, { seed });
+        }}
+        onOpenDetails={(playlist) => {
+          setSettingsPlaylist(null);
+          router.push({ pathname: '/playlist/[id]', params: { id: playlist.id } });
+        }}
+        onSaveAsPlaylist={(playlist) => {
+          setSettingsPlaylist(null);
+          handleSaveAsPlaylist(playlist);
+        }}
+      />
+
+      {/* Blend builder - blends themselves can't be used as sources */}
+      <BlendBuilderModal
+        isVisible={isBlendBuilderVisible}
+        sources={allPlaylistsWithLiked.filter(playlist => !blendPlaylists.includes(playlist))}
+        onClose={() => setIsBlendBuilderVisible(false)}
+      />
+
+      {/* Saved albums, followed artists and shared playlists */}
+      <AddSourceModal
+        isVisible={isAddSourceVisible}
+        addedSourceIds={trackSourcePlaylists.map(playlist => playlist.id)}
+        onReconnect={() => {
+          setIsAddSourceVisible(false);
+          login();
+        }}
+        onClose={() => setIsAddSourceVisible(false)}
+      />
+
+      {/* Timed session - fill a listening time instead of a regular set */}
+      <TimedSessionModal
+        isVisible={isTimedSessionVisible}
+        playlists={allPlaylistsWithLiked}
+        onClose={() => setIsTimedSessionVisible(false)}
+        onStart={(playlist, targetMinutes) => {
+          setIsTimedSessionVisible(false);
+          handlePlaylistSelect(playlist, { targetMinutes });
+        }}
+      />
+
+      {/* Queue cut short by an app kill - resume it or return the rest to unheard */}
+      <InterruptedQueueModal
+        isVisible={!!interruptedQueue && !isInterruptedDismissed}
+        queue={interruptedQueue ?? null}
+        devices={devices}
+        isPending={isHandlingInterrupted}
+        errorMessage={interruptedError}
+        onResume={handleResumeInterrupted}
+        onRollBack={handleRollBackInterrupted}
+        onClose={() => setIsInterruptedDismissed(true)}
+      />
     </View>
   );
 }
@@ -441,6 +700,26 @@ const styles = StyleSheet.create({
     letterSpacing: 0.3,
     lineHeight: 24,
   },
+  headerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  headerAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+  },
+  headerActionText: {
+    color: '#1DB954',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   welcomeText: {
     fontSize: 28,
     fontWeight: '700',
@@ -487,6 +766,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginTop: 16,
   },
+  emptyListText: {
+    color: '#b3b3b3',
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 24,
+  },
   playlistGrid: {
     padding: 16,
     gap: 16,
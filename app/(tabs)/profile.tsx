@@ -1,9 +1,10 @@
 import React from 'react';
 import { View, Text, StyleSheet, Pressable, Image, ScrollView } from 'react-native';
 import Animated, { useSharedValue, useAnimatedStyle, withSpring } from 'react-native-reanimated';
+import { useRouter } from 'expo-router';
 import { useSpotify } from '@/contexts/SpotifyContext';
-import { useGlobalStats } from '@/hooks/useSpotifyQueries';
-import { LogOut, Mail, Crown } from 'lucide-react-native';
+import { useGlobalStats, useBlocklist } from '@/hooks/useSpotifyQueries';
+import { LogOut, Mail, Crown, Ban, ChevronRight } from 'lucide-react-native';
 import StatsCard from '@/components/StatsCard';
 
 export default function ProfileTab() {
@@ -11,6 +12,8 @@ export default function ProfileTab() {
   // Fetch stats when tab is focused, but don't poll continuously to avoid performance issues
   // Stats will update automatically when cache is invalidated after queueing completes
   const { data: globalStats, isLoading: statsLoading } = useGlobalStats(!!user, false);
+  const { data: blocklist } = useBlocklist(!!user);
+  const router = useRouter();
   const scale = useSharedValue(1);
 
 
@@ -91,6 +94,24 @@ export default function ProfileTab() {
               </View>
             </View>
 
+            {/* Blocklist - artists and tracks never shuffled in */}
+            <Pressable onPress={() => router.push('/blocklist')}>
+              <View style={styles.infoCard}>
+                <View style={styles.infoRow}>
+                  <View style={styles.iconContainer}>
+                    <Ban size={18} color="#1DB954" />
+                  </View>
+                  <View style={styles.infoContent}>
+                    <Text style={styles.infoLabel}>Blocklist</Text>
+                    <Text style={styles.infoValue}>
+                      {blocklist ? `${blocklist.artists.length} artists • ${blocklist.tracks.length} tracks` : 'Artists and tracks never shuffled in'}
+                    </Text>
+                  </View>
+                  <ChevronRight size={20} color="#666" />
+                </View>
+              </View>
+            </Pressable>
+
             {/* Listening Statistics Card */}
             <StatsCard stats={globalStats} isLoading={statsLoading} />
           </>
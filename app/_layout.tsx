@@ -13,6 +13,9 @@ export default function RootLayout() {
       <SpotifyProvider>
         <Stack screenOptions={{ headerShown: false }}>
           <Stack.Screen name="(tabs)" />
+          <Stack.Screen name="jobs" />
+          <Stack.Screen name="playlist/[id]" />
+          <Stack.Screen name="blocklist" />
           <Stack.Screen name="+not-found" />
         </Stack>
         <StatusBar style="light" />
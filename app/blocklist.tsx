@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, ActivityIndicator, Share } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, X, Share2, Download } from 'lucide-react-native';
+import {
+  useBlocklist,
+  useUpdateBlocklistMutation,
+  useImportBlocklistMutation,
+} from '@/hooks/useSpotifyQueries';
+import { exportBlocklist } from '@/utils/blocklist';
+
+export default function BlocklistScreen() {
+  const router = useRouter();
+  const { data: blocklist, isLoading } = useBlocklist();
+  const { mutate: updateBlocklist, isPending: isUpdating } = useUpdateBlocklistMutation();
+  const { mutate: importList, isPending: isImporting } = useImportBlocklistMutation();
+
+  const [importText, setImportText] = useState('');
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | undefined>();
+
+  const artists = blocklist?.artists ?? [];
+  const tracks = blocklist?.tracks ?? [];
+
+  const handleExport = async () => {
+    if (!blocklist) return;
+    try {
+      await Share.share({ message: exportBlocklist(blocklist) });
+    } catch (error) {
+      console.error('[Blocklist] Failed to share blocklist:', error);
+    }
+  };
+
+  const handleImport = () => {
+    setImportMessage(undefined);
+    importList(importText, {
+      onSuccess: (added) => {
+        setImportText('');
+        setImportMessage({
+          text: added > 0 ? `Added ${added} ${added === 1 ? 'entry' : 'entries'}` : 'Everything was already blocked',
+          isError: false,
+        });
+      },
+      onError: (error) => {
+        setImportMessage({ text: error instanceof Error ? error.message : 'Import failed', isError: true });
+      },
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.8}>
+            <ChevronLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Blocklist</Text>
+          <Text style={styles.subtitle}>Never shuffled in, whatever the playlist. Block from a playlist's track list.</Text>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#1DB954" style={styles.loading} />
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Artists</Text>
+            <View style={styles.card}>
+              {artists.length > 0 ? (
+                artists.map(artist => (
+                  <View key={artist.id} style={styles.row}>
+                    <View style={styles.rowInfo}>
+                      <Text style={styles.rowName} numberOfLines={1}>{artist.name}</Text>
+                      <Text style={styles.rowDetail}>Blocked {new Date(artist.blockedAt).toLocaleDateString()}</Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => updateBlocklist({ type: 'unblock-artist', artistId: artist.id })}
+                      disabled={isUpdating}
+                      activeOpacity={0.8}
+                      accessibilityLabel={`Unblock ${artist.name}`}
+                    >
+                      <X size={18} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.emptyText}>No blocked artists</Text>
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Tracks</Text>
+            <View style={styles.card}>
+              {tracks.length > 0 ? (
+                tracks.map(track => (
+                  <View key={track.id} style={styles.row}>
+                    <View style={styles.rowInfo}>
+                      <Text style={styles.rowName} numberOfLines={1}>{track.name}</Text>
+                      <Text style={styles.rowDetail} numberOfLines={1}>{track.artistNames.join(', ')}</Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => updateBlocklist({ type: 'unblock-track', trackId: track.id })}
+                      disabled={isUpdating}
+                      activeOpacity={0.8}
+                      accessibilityLabel={`Unblock ${track.name}`}
+                    >
+                      <X size={18} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.emptyText}>No blocked tracks</Text>
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Import & export</Text>
+            <View style={[styles.card, styles.transferCard]}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleExport}
+                disabled={artists.length === 0 && tracks.length === 0}
+                activeOpacity={0.8}
+              >
+                <Share2 size={16} color="#1DB954" />
+                <Text style={styles.actionButtonText}>Export blocklist</Text>
+              </TouchableOpacity>
+
+              <TextInput
+                style={styles.importInput}
+                value={importText}
+                onChangeText={setImportText}
+                placeholder="Paste an exported blocklist"
+                placeholderTextColor="#6B7280"
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleImport}
+                disabled={importText.trim().length === 0 || isImporting}
+                activeOpacity={0.8}
+              >
+                <Download size={16} color="#1DB954" />
+                <Text style={styles.actionButtonText}>Import</Text>
+              </TouchableOpacity>
+              {importMessage && (
+                <Text style={[styles.importMessage, importMessage.isError && styles.importError]}>
+                  {importMessage.text}
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    marginLeft: -8,
+    marginBottom: 8,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#fff',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#a0a0a0',
+    marginTop: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  sectionTitle: {
+    color: '#E5E7EB',
+    fontSize: 17,
+    fontWeight: '600',
+    marginHorizontal: 24,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#0a0a0a',
+    marginHorizontal: 24,
+    marginBottom: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#1a1a1a',
+  },
+  transferCard: {
+    paddingVertical: 12,
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    color: '#9CA3AF',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  removeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#6B7280',
+    fontSize: 14,
+    paddingVertical: 16,
+    textAlign: 'center',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+  },
+  actionButtonText: {
+    color: '#1DB954',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  importInput: {
+    color: '#fff',
+    fontSize: 13,
+    minHeight: 80,
+    maxHeight: 160,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1a',
+    textAlignVertical: 'top',
+  },
+  importMessage: {
+    color: '#1DB954',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  importError: {
+    color: '#F87171',
+  },
+});
@@ -0,0 +1,252 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, X } from 'lucide-react-native';
+import {
+  useQueueJobs,
+  useQueueStatus,
+  useCancelQueueJobMutation,
+  useClearFinishedJobsMutation,
+} from '@/hooks/useSpotifyQueries';
+import { isFinishedJob, type QueueJob, type QueueJobStatus } from '@/utils/queueJobs';
+
+const STATUS_LABELS: Record<QueueJobStatus, string> = {
+  pending: 'Up next',
+  running: 'Queueing',
+  paused: 'Paused',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<QueueJobStatus, string> = {
+  pending: '#9CA3AF',
+  running: '#1DB954',
+  paused: '#FBBF24',
+  done: '#1DB954',
+  failed: '#F87171',
+  cancelled: '#6B7280',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Detail line under the playlist name
+function getJobDetail(job: QueueJob, liveProgress?: { progress: number; total: number }): string {
+  switch (job.status) {
+    case 'pending':
+      return `${job.totalTracks} tracks • lined up at ${formatTime(job.createdAt)}`;
+    case 'running':
+    case 'paused':
+      return liveProgress
+        ? `${liveProgress.progress} of ${liveProgress.total} tracks queued`
+        : `${job.totalTracks} tracks`;
+    case 'done': {
+      const took = job.startedAt && job.finishedAt ? ` in ${formatDuration(job.finishedAt - job.startedAt)}` : '';
+      return `${job.queuedTracks} tracks queued${took}`;
+    }
+    case 'failed':
+      return job.error ?? 'Something went wrong';
+    case 'cancelled':
+      return `Cancelled after ${job.queuedTracks} of ${job.totalTracks} tracks`;
+  }
+}
+
+export default function JobsScreen() {
+  const router = useRouter();
+  const { data: jobs = [], isLoading } = useQueueJobs();
+  const { data: queueStatus } = useQueueStatus();
+  const { mutate: cancelJob, isPending: isCancelling } = useCancelQueueJobMutation();
+  const { mutate: clearHistory } = useClearFinishedJobsMutation();
+
+  const currentJobs = jobs.filter(job => !isFinishedJob(job));
+  const recentJobs = jobs.filter(isFinishedJob).reverse(); // Newest first
+
+  const renderJob = (job: QueueJob) => {
+    const isLive = job.status === 'running' || job.status === 'paused';
+    const liveProgress = isLive && queueStatus?.playlistId === job.playlistId ? queueStatus : undefined;
+    const finishedAt = job.finishedAt ? ` • ${formatTime(job.finishedAt)}` : '';
+
+    return (
+      <View key={job.id} style={styles.jobRow}>
+        <View style={styles.jobInfo}>
+          <Text style={styles.jobName} numberOfLines={1}>{job.playlistName}</Text>
+          <Text style={styles.jobDetail} numberOfLines={2}>{getJobDetail(job, liveProgress)}</Text>
+          <Text style={[styles.jobStatus, { color: STATUS_COLORS[job.status] }]}>
+            {STATUS_LABELS[job.status]}
+            {finishedAt}
+          </Text>
+        </View>
+        {!isFinishedJob(job) && (
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => cancelJob(job.id)}
+            disabled={isCancelling}
+            activeOpacity={0.8}
+            accessibilityLabel={`Cancel ${job.playlistName}`}
+          >
+            <X size={18} color="#fff" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.8}>
+            <ChevronLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Queue Jobs</Text>
+          <Text style={styles.subtitle}>Shuffle while a queue runs to line up the next set</Text>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#1DB954" style={styles.loading} />
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Current</Text>
+            <View style={styles.card}>
+              {currentJobs.length > 0 ? (
+                currentJobs.map(renderJob)
+              ) : (
+                <Text style={styles.emptyText}>Nothing is being queued right now</Text>
+              )}
+            </View>
+
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Recent</Text>
+              {recentJobs.length > 0 && (
+                <TouchableOpacity onPress={() => clearHistory()} activeOpacity={0.8}>
+                  <Text style={styles.clearText}>Clear</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <View style={styles.card}>
+              {recentJobs.length > 0 ? (
+                recentJobs.map(renderJob)
+              ) : (
+                <Text style={styles.emptyText}>Finished jobs show up here</Text>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    marginLeft: -8,
+    marginBottom: 8,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#fff',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#a0a0a0',
+    marginTop: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginRight: 24,
+  },
+  sectionTitle: {
+    color: '#E5E7EB',
+    fontSize: 17,
+    fontWeight: '600',
+    marginHorizontal: 24,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  clearText: {
+    color: '#1DB954',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#0a0a0a',
+    marginHorizontal: 24,
+    marginBottom: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#1a1a1a',
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  jobInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  jobName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  jobDetail: {
+    color: '#9CA3AF',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  jobStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  cancelButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#6B7280',
+    fontSize: 14,
+    paddingVertical: 16,
+    textAlign: 'center',
+  },
+});
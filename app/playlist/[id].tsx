@@ -0,0 +1,583 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { ChevronLeft, Play, Timer, RotateCcw, Ban } from 'lucide-react-native';
+import { useSpotify } from '@/contexts/SpotifyContext';
+import {
+  useShuffleSourceTracks,
+  useShuffleMemory,
+  useResetPlaylistMemoryMutation,
+  useSetTracksHeardMutation,
+  useExcludedTracks,
+  useSetTracksExcludedMutation,
+  useBlocklist,
+  useUpdateBlocklistMutation,
+} from '@/hooks/useSpotifyQueries';
+import { getHeardTrackIds } from '@/utils/smartShuffle';
+import { getBlockReason, describeBlockReason, type BlockReason } from '@/utils/blocklist';
+import type { SpotifyTrack } from '@/types/spotify';
+
+type TrackFilter = 'all' | 'unheard' | 'heard' | 'excluded';
+
+const TRACK_FILTERS: { value: TrackFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'unheard', label: 'Unheard' },
+  { value: 'heard', label: 'Heard' },
+  { value: 'excluded', label: 'Excluded & blocked' },
+];
+
+const SESSION_MINUTES = [15, 30, 45, 60, 90, 120];
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${Math.floor(minutes / 60)} h ${minutes % 60}`;
+}
+
+function formatDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export default function PlaylistDetailScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { allPlaylistsWithLiked } = useSpotify();
+  const playlist = allPlaylistsWithLiked.find(p => p.id === id) ?? null;
+
+  const { data: tracks = [], isLoading: tracksLoading, error: tracksError } = useShuffleSourceTracks(playlist?.id ?? null);
+  const { data: memory } = useShuffleMemory(playlist?.id ?? null);
+  const { mutate: resetMemory, isPending: isResetting } = useResetPlaylistMemoryMutation();
+  const { mutate: setTracksHeard, isPending: isMarking, error: markError } = useSetTracksHeardMutation();
+  const { data: excludedTrackIds = [] } = useExcludedTracks(playlist?.id ?? null);
+  const { mutate: setTracksExcluded, isPending: isExcluding } = useSetTracksExcludedMutation();
+  const { data: blocklist } = useBlocklist();
+  const { mutate: updateBlocklist, isPending: isUpdatingBlocklist } = useUpdateBlocklistMutation();
+
+  const [filter, setFilter] = useState<TrackFilter>('all');
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const [expandedTrackId, setExpandedTrackId] = useState<string | null>(null);
+
+  // Shuffles start from the home screen, which runs the device and queue checks
+  const startShuffle = (targetMinutes?: number) => {
+    if (!playlist) return;
+    router.navigate({
+      pathname: '/',
+      params: targetMinutes ? { shuffle: playlist.id, minutes: String(targetMinutes) } : { shuffle: playlist.id },
+    });
+  };
+
+  const handleReset = () => {
+    if (!playlist) return;
+    if (!isConfirmingReset) {
+      setIsConfirmingReset(true);
+      return;
+    }
+    resetMemory(playlist.id, { onSettled: () => setIsConfirmingReset(false) });
+  };
+
+  // Excluded and blocked tracks are outside the cycle, so they're neither heard nor unheard
+  const heardIds = memory ? getHeardTrackIds(memory) : new Set<string>();
+  const excludedIds = new Set(excludedTrackIds);
+  const blockReasons = new Map<string, BlockReason>();
+  if (blocklist) {
+    tracks.forEach(track => {
+      const reason = getBlockReason(track, blocklist);
+      if (reason) blockReasons.set(track.id, reason);
+    });
+  }
+  const isOutOfCycle = (track: SpotifyTrack) => excludedIds.has(track.id) || blockReasons.has(track.id);
+
+  const eligibleTracks = tracks.filter(track => !isOutOfCycle(track));
+  const heardCount = eligibleTracks.filter(track => heardIds.has(track.id)).length;
+  const blockedCount = blockReasons.size;
+  const excludedCount = tracks.length - eligibleTracks.length - blockedCount;
+  const visibleTracks = tracks.filter(track => {
+    if (filter === 'excluded') return isOutOfCycle(track);
+    if (filter === 'heard') return !isOutOfCycle(track) && heardIds.has(track.id);
+    if (filter === 'unheard') return !isOutOfCycle(track) && !heardIds.has(track.id);
+    return true;
+  });
+  const visibleUnheard = visibleTracks.filter(track => !isOutOfCycle(track) && !heardIds.has(track.id));
+  const visibleHeard = visibleTracks.filter(track => !isOutOfCycle(track) && heardIds.has(track.id));
+
+  const markTracks = (trackIds: string[], heard: boolean) => {
+    if (!playlist || trackIds.length === 0) return;
+    setTracksHeard({ playlistId: playlist.id, tracks, trackIds, heard });
+  };
+
+  // Everything from the top of the playlist down to this track, e.g. after listening in the Spotify app
+  const markHeardUpTo = (track: SpotifyTrack) => {
+    const index = tracks.indexOf(track);
+    markTracks(
+      tracks.slice(0, index + 1).filter(t => !isOutOfCycle(t) && !heardIds.has(t.id)).map(t => t.id),
+      true
+    );
+  };
+
+  const toggleExcluded = (track: SpotifyTrack) => {
+    if (!playlist) return;
+    setTracksExcluded({ playlistId: playlist.id, trackIds: [track.id], excluded: !excludedIds.has(track.id) });
+  };
+
+  if (!playlist) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>This playlist is no longer in your library</Text>
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.8}>
+          <Text style={styles.linkText}>Go back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const renderBlockActions = (track: SpotifyTrack) => {
+    const isTrackBlocked = !!blocklist?.tracks.some(blocked => blocked.id === track.id);
+    return (
+      <View style={styles.blockActions}>
+        <TouchableOpacity
+          onPress={() => updateBlocklist(isTrackBlocked
+            ? { type: 'unblock-track', trackId: track.id }
+            : { type: 'block-track', track })}
+          disabled={isUpdatingBlocklist}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.blockActionText}>{isTrackBlocked ? 'Unblock track everywhere' : 'Block track everywhere'}</Text>
+        </TouchableOpacity>
+        {track.artists.filter((artist): artist is { id: string; name: string } => !!artist.id).map(artist => {
+          const isArtistBlocked = !!blocklist?.artists.some(blocked => blocked.id === artist.id);
+          return (
+            <TouchableOpacity
+              key={artist.id}
+              onPress={() => updateBlocklist(isArtistBlocked
+                ? { type: 'unblock-artist', artistId: artist.id }
+                : { type: 'block-artist', artist })}
+              disabled={isUpdatingBlocklist}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.blockActionText}>{isArtistBlocked ? `Unblock ${artist.name}` : `Block ${artist.name}`}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderTrack = ({ item: track }: { item: SpotifyTrack }) => {
+    const isExcluded = excludedIds.has(track.id);
+    const blockReason = blockReasons.get(track.id);
+    const isLeftOut = isExcluded || !!blockReason;
+    const isHeard = !isLeftOut && heardIds.has(track.id);
+    return (
+      <View>
+        <TouchableOpacity
+          style={styles.trackRow}
+          onPress={() => setExpandedTrackId(expandedTrackId === track.id ? null : track.id)}
+          onLongPress={() => markHeardUpTo(track)}
+          disabled={isMarking}
+          activeOpacity={0.8}
+        >
+          <View style={styles.trackInfo}>
+            <Text
+              style={[styles.trackName, (isHeard || isLeftOut) && styles.trackNameHeard, isLeftOut && styles.trackNameExcluded]}
+              numberOfLines={1}
+            >
+              {track.name}
+            </Text>
+            {/* Blocked tracks say why, instead of silently vanishing from the cycle */}
+            <Text style={[styles.trackArtists, blockReason && styles.blockReasonText]} numberOfLines={1}>
+              {blockReason ? describeBlockReason(blockReason) : track.artists.map(artist => artist.name).join(', ')}
+            </Text>
+          </View>
+          {isLeftOut ? (
+            <View style={[styles.statusBadge, styles.statusBadgeHeard]}>
+              <Text style={[styles.statusText, styles.statusTextHeard]}>{blockReason ? 'Blocked' : 'Excluded'}</Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.statusBadge, isHeard && styles.statusBadgeHeard]}
+              onPress={() => markTracks([track.id], !isHeard)}
+              disabled={isMarking}
+              activeOpacity={0.8}
+              accessibilityLabel={isHeard ? `Mark ${track.name} as unheard` : `Mark ${track.name} as heard`}
+            >
+              <Text style={[styles.statusText, isHeard && styles.statusTextHeard]}>{isHeard ? 'Heard' : 'Unheard'}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.excludeButton}
+            onPress={() => toggleExcluded(track)}
+            disabled={isExcluding}
+            hitSlop={8}
+            activeOpacity={0.8}
+            accessibilityLabel={isExcluded ? `Shuffle ${track.name} again` : `Never shuffle ${track.name}`}
+          >
+            <Ban size={18} color={isExcluded ? '#EF4444' : '#4B5563'} />
+          </TouchableOpacity>
+        </TouchableOpacity>
+        {expandedTrackId === track.id && renderBlockActions(track)}
+      </View>
+    );
+  };
+
+  const header = (
+    <View>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.8}>
+          <ChevronLeft size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={2}>{playlist.name}</Text>
+        <Text style={styles.subtitle}>
+          {memory
+            ? `Cycle ${memory.cycleNumber + 1} • Last shuffled ${formatDateTime(memory.lastUpdated)}` // cycleNumber counts completed cycles
+            : 'Never shuffled'}
+        </Text>
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.statsRow}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{tracksLoading ? '–' : eligibleTracks.length - heardCount}</Text>
+            <Text style={styles.statLabel}>Unheard</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{tracksLoading ? '–' : heardCount}</Text>
+            <Text style={styles.statLabel}>Heard this cycle</Text>
+          </View>
+          {excludedCount > 0 && (
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{excludedCount}</Text>
+              <Text style={styles.statLabel}>Excluded</Text>
+            </View>
+          )}
+          {blockedCount > 0 && (
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{blockedCount}</Text>
+              <Text style={styles.statLabel}>Blocked</Text>
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => startShuffle()} activeOpacity={0.8}>
+          <Play size={18} color="#000" fill="#000" />
+          <Text style={styles.primaryButtonText}>Shuffle</Text>
+        </TouchableOpacity>
+
+        <View style={styles.sessionHeader}>
+          <Timer size={16} color="#9CA3AF" />
+          <Text style={styles.sessionTitle}>Timed session</Text>
+        </View>
+        <View style={styles.chipRow}>
+          {SESSION_MINUTES.map(minutes => (
+            <TouchableOpacity
+              key={minutes}
+              style={styles.chip}
+              onPress={() => startShuffle(minutes)}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.chipText}>{formatMinutes(minutes)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {memory && (
+          <TouchableOpacity
+            style={styles.resetButton}
+            onPress={handleReset}
+            disabled={isResetting}
+            activeOpacity={0.8}
+          >
+            <RotateCcw size={16} color="#EF4444" />
+            <Text style={styles.resetButtonText}>
+              {isConfirmingReset ? 'Tap again to mark every track unheard' : 'Reset memory'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={[styles.chipRow, styles.filterRow]}>
+        {TRACK_FILTERS.map(option => {
+          const isSelected = option.value === filter;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => setFilter(option.value)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {tracks.length > 0 && (
+        <View style={styles.bulkRow}>
+          <Text style={styles.hintText}>
+            Tap a status to toggle it • Long-press a track to mark everything up to it as heard • Tap the ban icon to exclude a track here, or a track to block it everywhere
+          </Text>
+          <View style={styles.bulkActions}>
+            {visibleUnheard.length > 0 && (
+              <TouchableOpacity onPress={() => markTracks(visibleUnheard.map(t => t.id), true)} disabled={isMarking} activeOpacity={0.8}>
+                <Text style={styles.linkText}>Mark {visibleUnheard.length} as heard</Text>
+              </TouchableOpacity>
+            )}
+            {visibleHeard.length > 0 && (
+              <TouchableOpacity onPress={() => markTracks(visibleHeard.map(t => t.id), false)} disabled={isMarking} activeOpacity={0.8}>
+                <Text style={styles.linkText}>Mark {visibleHeard.length} as unheard</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {markError && <Text style={styles.errorText}>{markError.message}</Text>}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={visibleTracks}
+        keyExtractor={(track, index) => `${track.id}-${index}`}
+        renderItem={renderTrack}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          tracksLoading ? (
+            <ActivityIndicator size="large" color="#1DB954" style={styles.loading} />
+          ) : (
+            <Text style={styles.emptyText}>
+              {tracksError ? "Couldn't load the tracks" : filter === 'all' ? 'No tracks' : `No ${filter} tracks`}
+            </Text>
+          )
+        }
+        contentContainerStyle={styles.listContent}
+        initialNumToRender={20}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    marginLeft: -8,
+    marginBottom: 8,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#fff',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#a0a0a0',
+    marginTop: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#0a0a0a',
+    marginHorizontal: 24,
+    marginBottom: 24,
+    padding: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#1a1a1a',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  statLabel: {
+    color: '#9CA3AF',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#1DB954',
+    paddingVertical: 14,
+    borderRadius: 24,
+  },
+  primaryButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  sessionTitle: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  filterRow: {
+    marginHorizontal: 24,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipSelected: {
+    backgroundColor: '#1DB954',
+    borderColor: '#1DB954',
+  },
+  chipText: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#000',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 20,
+    paddingVertical: 10,
+  },
+  resetButtonText: {
+    color: '#EF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  bulkRow: {
+    marginHorizontal: 24,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  hintText: {
+    color: '#6B7280',
+    fontSize: 13,
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 10,
+  },
+  errorText: {
+    color: '#F87171',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  trackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+  },
+  trackInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  trackName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  trackNameHeard: {
+    color: '#9CA3AF',
+  },
+  trackNameExcluded: {
+    textDecorationLine: 'line-through',
+  },
+  blockReasonText: {
+    color: '#F87171',
+  },
+  blockActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+    paddingHorizontal: 24,
+    paddingBottom: 10,
+  },
+  blockActionText: {
+    color: '#EF4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  excludeButton: {
+    marginLeft: 12,
+  },
+  trackArtists: {
+    color: '#6B7280',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+  },
+  statusBadgeHeard: {
+    backgroundColor: '#1a1a1a',
+  },
+  statusText: {
+    color: '#1DB954',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  statusTextHeard: {
+    color: '#6B7280',
+  },
+  emptyText: {
+    color: '#6B7280',
+    fontSize: 14,
+    paddingVertical: 16,
+    textAlign: 'center',
+  },
+  linkText: {
+    color: '#1DB954',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,279 @@
+/**
+ * Add Source Modal
+ *
+ * Adds shuffle sources beyond the user's playlists: all saved albums as one
+ * pool, a followed artist's catalog, or any public playlist by link.
+ * Added sources show up on the home screen and keep their own shuffle memory.
+ *
+ * Design Philosophy:
+ * - Same card look as AlertModal and BlendBuilderModal
+ * - One tap per source; already added sources are marked instead of hidden
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, ActivityIndicator } from 'react-native';
+import { Library, Check, Plus } from 'lucide-react-native';
+import ModalCard from '@/components/ModalCard';
+import {
+  useFollowedArtists,
+  useAddTrackSourceMutation,
+  type TrackSourceRequest,
+} from '@/hooks/useSpotifyQueries';
+import { requiresReauthentication } from '@/utils/spotifyErrors';
+import { SAVED_ALBUMS_SOURCE_ID, ARTIST_SOURCE_PREFIX } from '@/utils/trackSources';
+
+interface AddSourceModalProps {
+  isVisible: boolean;
+  addedSourceIds: string[];
+  onReconnect: () => void;
+  onClose: () => void;
+}
+
+export default function AddSourceModal({ isVisible, addedSourceIds, onReconnect, onClose }: AddSourceModalProps) {
+  const [playlistLink, setPlaylistLink] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | undefined>();
+  const { data: artists = [], isLoading: artistsLoading, error: artistsError } = useFollowedArtists(isVisible);
+  const { mutate: addSource, isPending } = useAddTrackSourceMutation();
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isVisible) {
+      setPlaylistLink('');
+      setErrorMessage(undefined);
+    }
+  }, [isVisible]);
+
+  if (!isVisible) {
+    return null;
+  }
+
+  const add = (request: TrackSourceRequest, onAdded?: () => void) => {
+    setErrorMessage(undefined);
+    addSource(request, {
+      onSuccess: () => onAdded?.(),
+      onError: (error) => {
+        console.error('[AddSource] Failed to add source:', error);
+        setErrorMessage(error instanceof Error ? error.message : 'Could not add that source');
+      },
+    });
+  };
+
+  const hasSavedAlbums = addedSourceIds.includes(SAVED_ALBUMS_SOURCE_ID);
+  const canAddLink = playlistLink.trim().length > 0 && !isPending;
+
+  return (
+    <ModalCard isVisible={isVisible}>
+      <View style={styles.iconContainer}>
+        <Library size={32} color="#1DB954" />
+      </View>
+      <Text style={styles.title}>Add Source</Text>
+      <Text style={styles.subtitle}>Shuffle more than your playlists</Text>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>Saved albums</Text>
+        <TouchableOpacity
+          style={styles.sourceRow}
+          onPress={() => add({ type: 'saved-albums' })}
+          disabled={hasSavedAlbums || isPending}
+          activeOpacity={0.8}
+        >
+          <View style={styles.sourceInfo}>
+            <Text style={styles.sourceName}>All saved albums</Text>
+            <Text style={styles.sourceMeta}>Shuffled together as one pool</Text>
+          </View>
+          <SourceBadge isAdded={hasSavedAlbums} />
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>Followed artists</Text>
+        {artistsLoading ? (
+          <ActivityIndicator size="small" color="#1DB954" style={styles.loading} />
+        ) : requiresReauthentication(artistsError) ? (
+          // Logins from before artist sources lack the user-follow-read scope
+          <TouchableOpacity onPress={onReconnect} activeOpacity={0.8}>
+            <Text style={styles.hintText}>
+              Reconnect Spotify to see the artists you follow. <Text style={styles.linkText}>Reconnect</Text>
+            </Text>
+          </TouchableOpacity>
+        ) : artistsError ? (
+          <Text style={styles.hintText}>Couldn't load the artists you follow</Text>
+        ) : artists.length === 0 ? (
+          <Text style={styles.hintText}>You don't follow any artists yet</Text>
+        ) : (
+          artists.map(artist => {
+            const isAdded = addedSourceIds.includes(`${ARTIST_SOURCE_PREFIX}${artist.id}`);
+            return (
+              <TouchableOpacity
+                key={artist.id}
+                style={styles.sourceRow}
+                onPress={() => add({ type: 'artist', artist })}
+                disabled={isAdded || isPending}
+                activeOpacity={0.8}
+              >
+                <View style={styles.sourceInfo}>
+                  <Text style={styles.sourceName} numberOfLines={1}>{artist.name}</Text>
+                  <Text style={styles.sourceMeta}>Albums and singles</Text>
+                </View>
+                <SourceBadge isAdded={isAdded} />
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        <Text style={styles.sectionTitle}>Public playlist</Text>
+        <View style={styles.linkRow}>
+          <TextInput
+            style={styles.linkInput}
+            value={playlistLink}
+            onChangeText={setPlaylistLink}
+            placeholder="Paste a Spotify playlist link"
+            placeholderTextColor="#6B7280"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.linkButton, !canAddLink && styles.linkButtonDisabled]}
+            onPress={() => add({ type: 'shared-playlist', reference: playlistLink }, () => setPlaylistLink(''))}
+            disabled={!canAddLink}
+            activeOpacity={0.8}
+          >
+            <Plus size={18} color="#000" />
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={onClose} activeOpacity={0.8}>
+        <Text style={styles.secondaryButtonText}>Done</Text>
+      </TouchableOpacity>
+    </ModalCard>
+  );
+}
+
+function SourceBadge({ isAdded }: { isAdded: boolean }) {
+  return (
+    <View style={[styles.badge, isAdded && styles.badgeAdded]}>
+      {isAdded ? <Check size={14} color="#000" /> : <Plus size={14} color="#1DB954" />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  content: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  sourceInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sourceName: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  sourceMeta: {
+    color: '#6B7280',
+    fontSize: 13,
+  },
+  badge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeAdded: {
+    backgroundColor: '#1DB954',
+  },
+  loading: {
+    marginVertical: 12,
+  },
+  hintText: {
+    color: '#6B7280',
+    fontSize: 14,
+    paddingVertical: 8,
+  },
+  linkText: {
+    color: '#1DB954',
+    fontWeight: '600',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  linkInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1a',
+  },
+  linkButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#1DB954',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  linkButtonDisabled: {
+    backgroundColor: 'rgba(29, 185, 84, 0.3)',
+  },
+  errorText: {
+    color: '#F87171',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#9CA3AF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -7,11 +7,40 @@ import Animated, {
   withSpring,
   withTiming,
 } from 'react-native-reanimated';
-import { AlertTriangle, Smartphone, Music } from 'lucide-react-native';
+import { AlertTriangle, Smartphone, Music, Crown, KeyRound, WifiOff, Hourglass } from 'lucide-react-native';
+import {
+  NoActiveDeviceError,
+  PremiumRequiredError,
+  NetworkOfflineError,
+  RateLimitedError,
+  requiresReauthentication,
+} from '@/utils/spotifyErrors';
+
+export type AlertType =
+  | 'no-device'
+  | 'queue-not-empty'
+  | 'premium-required'
+  | 'reauth-required'
+  | 'offline'
+  | 'rate-limited'
+  | 'generic';
+
+/**
+ * Pick the alert for an error thrown by the Spotify service
+ * Returns null for errors that have no dedicated alert
+ */
+export function getAlertTypeForError(error: unknown): AlertType | null {
+  if (error instanceof NoActiveDeviceError) return 'no-device';
+  if (error instanceof PremiumRequiredError) return 'premium-required';
+  if (requiresReauthentication(error)) return 'reauth-required';
+  if (error instanceof NetworkOfflineError) return 'offline';
+  if (error instanceof RateLimitedError) return 'rate-limited';
+  return null;
+}
 
 interface AlertModalProps {
   isVisible: boolean;
-  type: 'no-device' | 'queue-not-empty' | 'generic';
+  type: AlertType;
   title?: string;
   message?: string;
   primaryButtonText?: string;
@@ -90,6 +119,42 @@ export default function AlertModal({
           secondaryButtonText: secondaryButtonText || 'Cancel',
           showSteps: false,
         };
+      case 'premium-required':
+        return {
+          icon: <Crown size={56} color="#1DB954" />,
+          title: title || 'Spotify Premium Required',
+          description: message || 'Spotify only lets Premium accounts control playback and the queue, so Flux can\'t queue songs for this account.',
+          primaryButtonText: primaryButtonText || 'OK',
+          secondaryButtonText: secondaryButtonText || undefined,
+          showSteps: false,
+        };
+      case 'reauth-required':
+        return {
+          icon: <KeyRound size={56} color="#1DB954" />,
+          title: title || 'Reconnect Spotify',
+          description: message || 'Your Spotify session expired or is missing permissions. Reconnect to keep shuffling.',
+          primaryButtonText: primaryButtonText || 'Reconnect',
+          secondaryButtonText: secondaryButtonText || 'Cancel',
+          showSteps: false,
+        };
+      case 'offline':
+        return {
+          icon: <WifiOff size={56} color="#FF9500" />,
+          title: title || 'You\'re Offline',
+          description: message || 'Flux couldn\'t reach Spotify. Check your internet connection and try again.',
+          primaryButtonText: primaryButtonText || 'Try Again',
+          secondaryButtonText: secondaryButtonText || 'Cancel',
+          showSteps: false,
+        };
+      case 'rate-limited':
+        return {
+          icon: <Hourglass size={56} color="#FF9500" />,
+          title: title || 'Spotify Needs a Break',
+          description: message || 'Spotify is limiting requests right now. Try again in a moment.',
+          primaryButtonText: primaryButtonText || 'Try Again',
+          secondaryButtonText: secondaryButtonText || 'Cancel',
+          showSteps: false,
+        };
       default:
         return {
           icon: <AlertTriangle size={56} color="#FF9500" />,
@@ -0,0 +1,220 @@
+/**
+ * Blend Builder Modal
+ *
+ * Lets the user combine several playlists (and optionally Liked Songs) into a blend.
+ * A blend is shuffled as one pool with its own shuffle memory.
+ *
+ * Design Philosophy:
+ * - Same card look as AlertModal and ShuffleSettingsModal
+ * - One scrolling checklist of sources, a name field and a single create button
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput } from 'react-native';
+import { Blend, Check } from 'lucide-react-native';
+import ModalCard from '@/components/ModalCard';
+import { useCreateBlendMutation } from '@/hooks/useSpotifyQueries';
+import type { SpotifyPlaylist } from '@/types/spotify';
+
+interface BlendBuilderModalProps {
+  isVisible: boolean;
+  sources: SpotifyPlaylist[]; // Liked Songs and regular playlists - blends can't contain blends
+  onClose: () => void;
+}
+
+const MIN_SOURCES = 2;
+
+export default function BlendBuilderModal({ isVisible, sources, onClose }: BlendBuilderModalProps) {
+  const [name, setName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const { mutate: createBlend, isPending } = useCreateBlendMutation();
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isVisible) {
+      setName('');
+      setSelectedIds([]);
+    }
+  }, [isVisible]);
+
+  if (!isVisible) {
+    return null;
+  }
+
+  const toggleSource = (id: string) => {
+    setSelectedIds(current =>
+      current.includes(id) ? current.filter(selectedId => selectedId !== id) : [...current, id]
+    );
+  };
+
+  const selectedSources = sources.filter(source => selectedIds.includes(source.id));
+  const canCreate = selectedSources.length >= MIN_SOURCES && !isPending;
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+
+    const blendName = name.trim() || selectedSources.map(source => source.name).join(' + ');
+    createBlend(
+      { name: blendName, sources: selectedSources },
+      {
+        onSuccess: onClose,
+        onError: (error) => console.error('[BlendBuilder] Failed to create blend:', error),
+      }
+    );
+  };
+
+  return (
+    <ModalCard isVisible={isVisible}>
+      <View style={styles.iconContainer}>
+        <Blend size={32} color="#1DB954" />
+      </View>
+      <Text style={styles.title}>Create Blend</Text>
+      <Text style={styles.subtitle}>
+        Pick at least {MIN_SOURCES} sources to shuffle together as one
+      </Text>
+
+      <TextInput
+        style={styles.nameInput}
+        value={name}
+        onChangeText={setName}
+        placeholder="Blend name (optional)"
+        placeholderTextColor="#6B7280"
+        maxLength={60}
+      />
+
+      <ScrollView style={styles.sourceList} showsVerticalScrollIndicator={false}>
+        {sources.map(source => {
+          const isSelected = selectedIds.includes(source.id);
+          return (
+            <TouchableOpacity
+              key={source.id}
+              style={styles.sourceRow}
+              onPress={() => toggleSource(source.id)}
+              activeOpacity={0.8}
+            >
+              <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                {isSelected && <Check size={14} color="#000" />}
+              </View>
+              <View style={styles.sourceInfo}>
+                <Text style={styles.sourceName} numberOfLines={1}>{source.name}</Text>
+                <Text style={styles.sourceMeta}>{source.tracks.total} tracks</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !canCreate && styles.primaryButtonDisabled]}
+        onPress={handleCreate}
+        disabled={!canCreate}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.primaryButtonText}>
+          {isPending ? 'Creating...' : `Create blend (${selectedSources.length})`}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={onClose} activeOpacity={0.8}>
+        <Text style={styles.secondaryButtonText}>Cancel</Text>
+      </TouchableOpacity>
+    </ModalCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  nameInput: {
+    color: '#fff',
+    fontSize: 15,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1a',
+    marginBottom: 12,
+  },
+  sourceList: {
+    flexGrow: 0,
+    maxHeight: 320,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: '#1DB954',
+    borderColor: '#1DB954',
+  },
+  sourceInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  sourceName: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  sourceMeta: {
+    color: '#6B7280',
+    fontSize: 13,
+  },
+  primaryButton: {
+    marginTop: 20,
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: '#1DB954',
+  },
+  primaryButtonDisabled: {
+    backgroundColor: 'rgba(29, 185, 84, 0.3)',
+  },
+  primaryButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  secondaryButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#9CA3AF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,247 @@
+/**
+ * Interrupted Queue Modal
+ *
+ * Shown on launch when the app was killed while queueing. The user can resume
+ * from where it stopped (on the original or another device) or send the
+ * remaining tracks back to the unheard pool.
+ *
+ * Design Philosophy:
+ * - Same card look as AlertModal and ShuffleSettingsModal
+ * - The original device is preselected, so the common case is a single tap
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { History, Check } from 'lucide-react-native';
+import ModalCard from '@/components/ModalCard';
+import type { InterruptedQueue } from '@/services/queueBackgroundService';
+
+interface InterruptedQueueModalProps {
+  isVisible: boolean;
+  queue: InterruptedQueue | null;
+  devices: Array<{ id: string; is_active: boolean; name: string; type: string }>;
+  isPending: boolean;
+  errorMessage?: string;
+  onResume: (deviceId: string) => void;
+  onRollBack: () => void;
+  onClose: () => void;
+}
+
+export default function InterruptedQueueModal({
+  isVisible,
+  queue,
+  devices,
+  isPending,
+  errorMessage,
+  onResume,
+  onRollBack,
+  onClose,
+}: InterruptedQueueModalProps) {
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
+
+  // Prefer the device the queue started on, then whatever is playing right now
+  useEffect(() => {
+    if (selectedDeviceId && devices.some(device => device.id === selectedDeviceId)) return;
+
+    const preferred =
+      devices.find(device => device.id === queue?.deviceId) ??
+      devices.find(device => device.is_active) ??
+      devices[0];
+    setSelectedDeviceId(preferred?.id ?? null);
+  }, [devices, queue?.deviceId, selectedDeviceId]);
+
+  if (!isVisible || !queue) {
+    return null;
+  }
+
+  const remaining = queue.total - queue.progress;
+  const canResume = !!selectedDeviceId && !isPending;
+
+  return (
+    <ModalCard isVisible={isVisible}>
+      <View style={styles.iconContainer}>
+        <History size={32} color="#1DB954" />
+      </View>
+      <Text style={styles.title}>Queueing Interrupted</Text>
+      <Text style={styles.subtitle}>
+        Flux closed after queueing {queue.progress} of {queue.total} tracks from {queue.playlistName}.
+        {' '}{remaining} track{remaining === 1 ? ' is' : 's are'} still waiting.
+      </Text>
+
+      <Text style={styles.sectionTitle}>Resume on</Text>
+      {devices.length === 0 ? (
+        <Text style={styles.hintText}>No Spotify devices found. Open Spotify to resume there.</Text>
+      ) : (
+        <ScrollView style={styles.deviceList} showsVerticalScrollIndicator={false}>
+          {devices.map(device => {
+            const isSelected = device.id === selectedDeviceId;
+            return (
+              <TouchableOpacity
+                key={device.id}
+                style={styles.deviceRow}
+                onPress={() => setSelectedDeviceId(device.id)}
+                activeOpacity={0.8}
+              >
+                <View style={[styles.radio, isSelected && styles.radioSelected]}>
+                  {isSelected && <Check size={14} color="#000" />}
+                </View>
+                <View style={styles.deviceInfo}>
+                  <Text style={styles.deviceName} numberOfLines={1}>{device.name}</Text>
+                  <Text style={styles.deviceMeta}>
+                    {device.id === queue.deviceId ? 'Original device' : device.type}
+                    {device.is_active ? ' • Playing' : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !canResume && styles.primaryButtonDisabled]}
+        onPress={() => selectedDeviceId && onResume(selectedDeviceId)}
+        disabled={!canResume}
+        activeOpacity={0.8}
+      >
+        {isPending ? (
+          <ActivityIndicator size="small" color="#000" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Resume queueing</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={onRollBack}
+        disabled={isPending}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.secondaryButtonText}>Return {remaining} to unheard</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.tertiaryButton} onPress={onClose} disabled={isPending} activeOpacity={0.8}>
+        <Text style={styles.tertiaryButtonText}>Decide later</Text>
+      </TouchableOpacity>
+    </ModalCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  hintText: {
+    color: '#6B7280',
+    fontSize: 14,
+  },
+  deviceList: {
+    flexGrow: 0,
+    maxHeight: 200,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  radioSelected: {
+    backgroundColor: '#1DB954',
+    borderColor: '#1DB954',
+  },
+  deviceInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  deviceName: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  deviceMeta: {
+    color: '#6B7280',
+    fontSize: 13,
+  },
+  errorText: {
+    color: '#F87171',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  primaryButton: {
+    marginTop: 20,
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: '#1DB954',
+  },
+  primaryButtonDisabled: {
+    backgroundColor: 'rgba(29, 185, 84, 0.3)',
+  },
+  primaryButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  secondaryButton: {
+    marginTop: 8,
+    paddingVertical: 14,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  secondaryButtonText: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  tertiaryButton: {
+    marginTop: 4,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  tertiaryButtonText: {
+    color: '#9CA3AF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,81 @@
+/**
+ * Modal Card
+ *
+ * Blurred backdrop with a card that springs into view - the shell shared by
+ * the app's modals. Renders nothing while hidden.
+ */
+
+import React, { useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { BlurView } from 'expo-blur';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+  withTiming,
+} from 'react-native-reanimated';
+
+interface ModalCardProps {
+  isVisible: boolean;
+  children: React.ReactNode;
+}
+
+const AnimatedBlurView = Animated.createAnimatedComponent(BlurView);
+
+export default function ModalCard({ isVisible, children }: ModalCardProps) {
+  const scale = useSharedValue(0.9);
+  const opacity = useSharedValue(0);
+
+  useEffect(() => {
+    if (isVisible) {
+      opacity.value = withTiming(1, { duration: 200 });
+      scale.value = withSpring(1, { damping: 15, stiffness: 120 });
+    } else {
+      opacity.value = withTiming(0, { duration: 150 });
+      scale.value = withTiming(0.9, { duration: 150 });
+    }
+  }, [isVisible]);
+
+  const animatedCardStyle = useAnimatedStyle(() => ({
+    opacity: opacity.value,
+    transform: [{ scale: scale.value }],
+  }));
+
+  if (!isVisible) {
+    return null;
+  }
+
+  return (
+    <View style={StyleSheet.absoluteFill}>
+      <AnimatedBlurView intensity={80} tint="dark" style={styles.backdrop}>
+        <Animated.View style={[styles.card, animatedCardStyle]}>
+          {children}
+        </Animated.View>
+      </AnimatedBlurView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#121212',
+    borderRadius: 28,
+    padding: 28,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 20 },
+    shadowOpacity: 0.5,
+    shadowRadius: 40,
+    elevation: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(29, 185, 84, 0.15)',
+  },
+});
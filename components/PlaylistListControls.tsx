@@ -0,0 +1,162 @@
+/**
+ * Playlist List Controls
+ *
+ * Search field plus filter and sort chips above the home screen playlist list.
+ * Filter and sort are persisted by the caller (see utils/playlistListOptions).
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput } from 'react-native';
+import { Search, X } from 'lucide-react-native';
+import type { PlaylistFilter, PlaylistListOptions, PlaylistSort } from '@/utils/playlistListOptions';
+
+interface PlaylistListControlsProps {
+  query: string;
+  options: PlaylistListOptions;
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: PlaylistListOptions) => void;
+}
+
+const FILTER_OPTIONS: { value: PlaylistFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'owned', label: 'Owned' },
+  { value: 'collaborative', label: 'Collaborative' },
+  { value: 'in-progress', label: 'In progress' },
+  { value: 'completed', label: 'Completed a cycle' },
+];
+
+const SORT_OPTIONS: { value: PlaylistSort; label: string }[] = [
+  { value: 'library', label: 'Library order' },
+  { value: 'recent', label: 'Recently shuffled' },
+  { value: 'unheard', label: 'Most unheard' },
+  { value: 'size', label: 'Size' },
+  { value: 'name', label: 'Name' },
+];
+
+export default function PlaylistListControls({
+  query,
+  options,
+  onQueryChange,
+  onOptionsChange,
+}: PlaylistListControlsProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <Search size={18} color="#6B7280" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={onQueryChange}
+          placeholder="Search by name or owner"
+          placeholderTextColor="#6B7280"
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => onQueryChange('')} hitSlop={8} activeOpacity={0.8}>
+            <X size={18} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ChipRow
+        items={FILTER_OPTIONS}
+        selected={options.filter}
+        onSelect={filter => onOptionsChange({ ...options, filter })}
+      />
+      <ChipRow
+        label="Sort"
+        items={SORT_OPTIONS}
+        selected={options.sort}
+        onSelect={sort => onOptionsChange({ ...options, sort })}
+      />
+    </View>
+  );
+}
+
+function ChipRow<T extends string>({
+  label,
+  items,
+  selected,
+  onSelect,
+}: {
+  label?: string;
+  items: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+}) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.chipRow}
+    >
+      {label && <Text style={styles.chipRowLabel}>{label}</Text>}
+      {items.map(item => {
+        const isSelected = item.value === selected;
+        return (
+          <TouchableOpacity
+            key={item.value}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => onSelect(item.value)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{item.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    gap: 10,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1a',
+  },
+  searchInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    paddingVertical: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chipRowLabel: {
+    color: '#6B7280',
+    fontSize: 13,
+    fontWeight: '600',
+    marginRight: 2,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipSelected: {
+    backgroundColor: '#1DB954',
+    borderColor: '#1DB954',
+  },
+  chipText: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#000',
+  },
+});
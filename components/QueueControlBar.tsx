@@ -0,0 +1,116 @@
+/**
+ * Queue Control Bar
+ *
+ * Shown on the home screen while a background queue exists.
+ * Mirrors the notification buttons: Pause / Resume and Cancel.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Pause, Play, X } from 'lucide-react-native';
+import { useQueueStatus, useQueueControlMutation } from '@/hooks/useSpotifyQueries';
+
+export default function QueueControlBar() {
+  const { data: status } = useQueueStatus();
+  const { mutate: controlQueue, isPending } = useQueueControlMutation();
+
+  if (!status) {
+    return null;
+  }
+
+  const progressText = `${status.progress} of ${status.total} tracks queued`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.info}>
+        <Text style={styles.title} numberOfLines={1}>
+          {status.isPaused ? 'Paused' : 'Queueing'} • {status.playlistName}
+        </Text>
+        <Text style={styles.progressText}>{progressText}</Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${status.percentage}%` }]} />
+        </View>
+      </View>
+
+      {isPending ? (
+        <ActivityIndicator size="small" color="#1DB954" style={styles.spinner} />
+      ) : (
+        <View style={styles.buttons}>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => controlQueue(status.isPaused ? 'resume' : 'pause')}
+            activeOpacity={0.8}
+            accessibilityLabel={status.isPaused ? 'Resume queueing' : 'Pause queueing'}
+          >
+            {status.isPaused ? <Play size={18} color="#000" /> : <Pause size={18} color="#000" />}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.cancelButton]}
+            onPress={() => controlQueue('cancel')}
+            activeOpacity={0.8}
+            accessibilityLabel="Cancel queueing"
+          >
+            <X size={18} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderColor: 'rgba(29, 185, 84, 0.3)',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  info: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  progressText: {
+    color: '#b3b3b3',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#1DB954',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1DB954',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#333',
+  },
+  spinner: {
+    width: 88,
+  },
+});
@@ -0,0 +1,600 @@
+/**
+ * Shuffle Settings Modal
+ *
+ * Per-playlist shuffle options, opened by long-pressing a playlist card.
+ * Settings are saved immediately and apply to the next shuffle of the playlist.
+ * Also shows the seed of the last reproducible set so it can be shared and replayed,
+ * and can save the next set as a playlist instead of queueing it.
+ *
+ * Design Philosophy:
+ * - Same card look as AlertModal (blurred backdrop, dark card, green accent)
+ * - Options as compact chips - one tap per change, no nested screens
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { SlidersHorizontal, Pin, Trash2, ListPlus, ListMusic } from 'lucide-react-native';
+import ModalCard from '@/components/ModalCard';
+import {
+  useShuffleSettings,
+  useShuffleMemory,
+  useUpdateShuffleSettingsMutation,
+  useDeleteBlendMutation,
+  useRemoveTrackSourceMutation,
+} from '@/hooks/useSpotifyQueries';
+import { isBlendId } from '@/utils/blends';
+import { isAddedTrackSourceId } from '@/utils/trackSources';
+import {
+  DEFAULT_SHUFFLE_SETTINGS,
+  describeSetSizeStrategy,
+  describeQueueMode,
+  type ShuffleSettings,
+  type ShuffleMode,
+  type SetSizeStrategy,
+  type QueueMode,
+  type StartStrategy,
+} from '@/utils/smartShuffle';
+import { describeQueueReport } from '@/utils/queueReconciliation';
+import { SpotifyService, PLAY_URIS_LIMIT } from '@/utils/spotify';
+import { getExportPlaylistName } from '@/services/playlistExportService';
+import type { SpotifyPlaylist } from '@/types/spotify';
+
+interface ShuffleSettingsModalProps {
+  isVisible: boolean;
+  playlist: SpotifyPlaylist | null;
+  onClose: () => void;
+  onReplaySet?: (playlist: SpotifyPlaylist, seed: number) => void;
+  onSaveAsPlaylist?: (playlist: SpotifyPlaylist) => void;
+  onOpenDetails?: (playlist: SpotifyPlaylist) => void;
+}
+
+const GAP_OPTIONS = [0, 1, 2, 3, 5];
+const MODE_OPTIONS: ShuffleMode[] = ['random', 'weighted'];
+const MODE_LABELS: Record<ShuffleMode, string> = {
+  random: 'Random',
+  weighted: 'Favorites first',
+};
+
+type SetSizeType = SetSizeStrategy['type'];
+const SET_SIZE_OPTIONS: SetSizeType[] = ['adaptive', 'fixed', 'duration', 'cycle'];
+const SET_SIZE_LABELS: Record<SetSizeType, string> = {
+  adaptive: 'Adaptive',
+  fixed: 'Tracks',
+  duration: 'Time',
+  cycle: 'Whole cycle',
+};
+const TRACK_COUNT_OPTIONS = [25, 50, 100, 200];
+const DURATION_OPTIONS = [30, 60, 90, 120, 180]; // Minutes
+
+type QueueModeType = QueueMode['type'];
+const QUEUE_MODE_OPTIONS: QueueModeType[] = ['batch', 'drip'];
+const QUEUE_MODE_LABELS: Record<QueueModeType, string> = {
+  batch: 'All at once',
+  drip: 'Drip-feed',
+};
+const BUFFER_SIZE_OPTIONS = [2, 3, 5, 10];
+const DEFAULT_QUEUE_MODES: Record<QueueModeType, QueueMode> = {
+  batch: { type: 'batch' },
+  drip: { type: 'drip', bufferSize: 3 },
+};
+const START_STRATEGY_OPTIONS: StartStrategy[] = ['queue', 'fast-start'];
+const START_STRATEGY_LABELS: Record<StartStrategy, string> = {
+  queue: 'One by one',
+  'fast-start': 'Fast start',
+};
+
+// Strategy used when switching to a type, before a value is picked
+const DEFAULT_SET_SIZES: Record<SetSizeType, SetSizeStrategy> = {
+  adaptive: { type: 'adaptive' },
+  fixed: { type: 'fixed', trackCount: 50 },
+  duration: { type: 'duration', minutes: 60 },
+  cycle: { type: 'cycle' },
+};
+
+/**
+ * Row of selectable chips
+ */
+function OptionChips<T extends string | number>({
+  options,
+  selected,
+  getLabel,
+  onSelect,
+}: {
+  options: T[];
+  selected: T;
+  getLabel: (option: T) => string;
+  onSelect: (option: T) => void;
+}) {
+  return (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const isSelected = option === selected;
+        return (
+          <TouchableOpacity
+            key={String(option)}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => onSelect(option)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+              {getLabel(option)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+export default function ShuffleSettingsModal({
+  isVisible,
+  playlist,
+  onClose,
+  onReplaySet,
+  onSaveAsPlaylist,
+  onOpenDetails,
+}: ShuffleSettingsModalProps) {
+  const playlistId = playlist?.id ?? null;
+  const { data: savedSettings } = useShuffleSettings(playlistId, isVisible);
+  const { data: memory } = useShuffleMemory(playlistId, isVisible);
+  const { mutate: updateSettings } = useUpdateShuffleSettingsMutation();
+  const { mutate: deleteBlend, isPending: isDeletingBlend } = useDeleteBlendMutation();
+  const { mutate: removeSource, isPending: isRemovingSource } = useRemoveTrackSourceMutation();
+
+  const settings = savedSettings ?? DEFAULT_SHUFFLE_SETTINGS;
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isVisible) {
+      setPinMessage(null);
+    }
+  }, [isVisible]);
+
+  if (!isVisible || !playlist) {
+    return null;
+  }
+
+  const saveSettings = (changes: Partial<ShuffleSettings>) => {
+    updateSettings({ playlistId: playlist.id, settings: { ...settings, ...changes } });
+  };
+
+  const setSpacing = (key: 'minArtistGap' | 'minAlbumGap', gap: number) => {
+    const spacing = {
+      minArtistGap: settings.spacing?.minArtistGap ?? 0,
+      minAlbumGap: settings.spacing?.minAlbumGap ?? 0,
+      [key]: gap,
+    };
+    const isOff = spacing.minArtistGap === 0 && spacing.minAlbumGap === 0;
+    saveSettings({ spacing: isOff ? null : spacing });
+  };
+
+  // Pin whatever is playing right now - quickest way to pick a favorite without a track list
+  const pinCurrentTrack = async () => {
+    try {
+      const playback = await SpotifyService.getPlaybackState();
+      const track = playback?.currently_playing_type === 'track' ? playback.item : null;
+
+      if (!track) {
+        setPinMessage('Nothing is playing on Spotify right now');
+        return;
+      }
+      if (settings.pinnedTrackIds.includes(track.id)) {
+        setPinMessage(`"${track.name}" is already pinned`);
+        return;
+      }
+
+      saveSettings({ pinnedTrackIds: [...settings.pinnedTrackIds, track.id] });
+      setPinMessage(`Pinned "${track.name}"`);
+    } catch (error) {
+      console.error('[ShuffleSettings] Error pinning current track:', error);
+      setPinMessage('Could not read what is playing');
+    }
+  };
+
+  const getGapLabel = (gap: number) => (gap === 0 ? 'Off' : `${gap}`);
+  const spacingReport = settings.spacing ? memory?.lastSpacingReport : undefined;
+  const lastSeededSet = memory?.setHistory?.[0];
+
+  return (
+    <ModalCard isVisible={isVisible}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={styles.iconContainer}>
+          <SlidersHorizontal size={32} color="#1DB954" />
+        </View>
+        <Text style={styles.title}>Shuffle Settings</Text>
+        <Text style={styles.subtitle} numberOfLines={1}>{playlist.name}</Text>
+        {onOpenDetails && (
+          <TouchableOpacity style={styles.detailsLink} onPress={() => onOpenDetails(playlist)} activeOpacity={0.8}>
+            <ListMusic size={16} color="#1DB954" />
+            <Text style={styles.detailsLinkText}>Heard & unheard tracks</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Shuffle mode */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Order</Text>
+          <Text style={styles.sectionDescription}>
+            Favorites first surfaces pinned, liked and recently added songs earlier in each cycle
+          </Text>
+          <OptionChips
+            options={MODE_OPTIONS}
+            selected={settings.mode}
+            getLabel={mode => MODE_LABELS[mode]}
+            onSelect={mode => saveSettings({ mode })}
+          />
+          {settings.mode === 'weighted' && (
+            <View style={styles.pinRow}>
+              <TouchableOpacity style={styles.pinButton} onPress={pinCurrentTrack} activeOpacity={0.8}>
+                <Pin size={14} color="#1DB954" />
+                <Text style={styles.pinButtonText}>Pin current song</Text>
+              </TouchableOpacity>
+              {settings.pinnedTrackIds.length > 0 && (
+                <TouchableOpacity onPress={() => saveSettings({ pinnedTrackIds: [] })} activeOpacity={0.8}>
+                  <Text style={styles.pinClearText}>Clear {settings.pinnedTrackIds.length} pinned</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          {settings.mode === 'weighted' && pinMessage && (
+            <Text style={styles.reportText}>{pinMessage}</Text>
+          )}
+        </View>
+
+        {/* Set size */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Set size</Text>
+          <Text style={styles.sectionDescription}>
+            How much gets queued per shuffle • {describeSetSizeStrategy(settings.setSize)}
+          </Text>
+          <OptionChips
+            options={SET_SIZE_OPTIONS}
+            selected={settings.setSize.type}
+            getLabel={type => SET_SIZE_LABELS[type]}
+            onSelect={type => {
+              if (type !== settings.setSize.type) saveSettings({ setSize: DEFAULT_SET_SIZES[type] });
+            }}
+          />
+          {settings.setSize.type === 'fixed' && (
+            <View style={styles.subOptions}>
+              <OptionChips
+                options={TRACK_COUNT_OPTIONS}
+                selected={settings.setSize.trackCount}
+                getLabel={count => `${count}`}
+                onSelect={trackCount => saveSettings({ setSize: { type: 'fixed', trackCount } })}
+              />
+            </View>
+          )}
+          {settings.setSize.type === 'duration' && (
+            <View style={styles.subOptions}>
+              <OptionChips
+                options={DURATION_OPTIONS}
+                selected={settings.setSize.minutes}
+                getLabel={minutes => (minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`)}
+                onSelect={minutes => saveSettings({ setSize: { type: 'duration', minutes } })}
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Queue mode */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Queueing</Text>
+          <Text style={styles.sectionDescription}>
+            Drip-feed keeps only a few tracks in your Spotify queue and keeps adding unheard ones as you listen • {describeQueueMode(settings.queueMode)}
+          </Text>
+          <OptionChips
+            options={QUEUE_MODE_OPTIONS}
+            selected={settings.queueMode.type}
+            getLabel={type => QUEUE_MODE_LABELS[type]}
+            onSelect={type => {
+              if (type !== settings.queueMode.type) saveSettings({ queueMode: DEFAULT_QUEUE_MODES[type] });
+            }}
+          />
+          {settings.queueMode.type === 'drip' && (
+            <View style={styles.subOptions}>
+              <OptionChips
+                options={BUFFER_SIZE_OPTIONS}
+                selected={settings.queueMode.bufferSize}
+                getLabel={count => `${count} ahead`}
+                onSelect={bufferSize => saveSettings({ queueMode: { type: 'drip', bufferSize } })}
+              />
+            </View>
+          )}
+          {settings.queueMode.type === 'batch' && (
+            <View style={styles.subOptions}>
+              <OptionChips
+                options={START_STRATEGY_OPTIONS}
+                selected={settings.startStrategy}
+                getLabel={strategy => START_STRATEGY_LABELS[strategy]}
+                onSelect={startStrategy => saveSettings({ startStrategy })}
+              />
+              {settings.startStrategy === 'fast-start' && (
+                <Text style={styles.reportText}>
+                  Sends the set with the play request instead of queueing each track - much quicker for big sets. Tracks past the first {PLAY_URIS_LIMIT} are queued after it
+                </Text>
+              )}
+            </View>
+          )}
+          {memory?.lastQueueReport && (
+            <Text style={styles.reportText}>
+              Last queue check: {describeQueueReport(memory.lastQueueReport)}
+            </Text>
+          )}
+        </View>
+
+        {/* Artist spacing */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Space out artists</Text>
+          <Text style={styles.sectionDescription}>
+            Minimum songs between two tracks by the same artist
+          </Text>
+          <OptionChips
+            options={GAP_OPTIONS}
+            selected={settings.spacing?.minArtistGap ?? 0}
+            getLabel={getGapLabel}
+            onSelect={gap => setSpacing('minArtistGap', gap)}
+          />
+        </View>
+
+        {/* Album spacing */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Space out albums</Text>
+          <Text style={styles.sectionDescription}>
+            Minimum songs between two tracks from the same album
+          </Text>
+          <OptionChips
+            options={GAP_OPTIONS}
+            selected={settings.spacing?.minAlbumGap ?? 0}
+            getLabel={getGapLabel}
+            onSelect={gap => setSpacing('minAlbumGap', gap)}
+          />
+          {spacingReport && (
+            <Text style={styles.reportText}>
+              Last shuffle: {spacingReport.satisfiedPercentage}% of tracks met the spacing
+              {spacingReport.violations > 0 ? ` (${spacingReport.violations} relaxed)` : ''}
+            </Text>
+          )}
+        </View>
+
+        {/* Duplicate detection */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Merge duplicates</Text>
+          <Text style={styles.sectionDescription}>
+            Treat the same song on a single, album or compilation as one song per cycle
+          </Text>
+          <OptionChips
+            options={['off', 'on']}
+            selected={settings.dedupe ? 'on' : 'off'}
+            getLabel={option => (option === 'on' ? 'On' : 'Off')}
+            onSelect={option => saveSettings({ dedupe: option === 'on' })}
+          />
+          {settings.dedupe && !!memory?.duplicateGroups?.length && (
+            <Text style={styles.reportText}>
+              {memory.duplicateGroups.length} song{memory.duplicateGroups.length === 1 ? '' : 's'} found under several releases
+            </Text>
+          )}
+        </View>
+
+        {/* Reproducible shuffles */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reproducible shuffles</Text>
+          <Text style={styles.sectionDescription}>
+            Record a seed for each set so it can be regenerated when something looks off
+          </Text>
+          <OptionChips
+            options={['off', 'on']}
+            selected={settings.reproducible ? 'on' : 'off'}
+            getLabel={option => (option === 'on' ? 'On' : 'Off')}
+            onSelect={option => saveSettings({ reproducible: option === 'on' })}
+          />
+          {lastSeededSet && (
+            <View style={styles.pinRow}>
+              <Text style={styles.seedText} selectable>
+                Last seed: {lastSeededSet.seed}
+              </Text>
+              {onReplaySet && (
+                <TouchableOpacity
+                  style={styles.pinButton}
+                  onPress={() => onReplaySet(playlist, lastSeededSet.seed)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.pinButtonText}>Replay set</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+
+        {/* Playlist export */}
+        {onSaveAsPlaylist && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Save as playlist</Text>
+            <Text style={styles.sectionDescription}>
+              Write the next set to "{getExportPlaylistName(playlist.name)}" in your library instead of queueing it - handy where queueing is flaky
+            </Text>
+            <View style={styles.pinRow}>
+              <TouchableOpacity
+                style={styles.pinButton}
+                onPress={() => onSaveAsPlaylist(playlist)}
+                activeOpacity={0.8}
+              >
+                <ListPlus size={14} color="#1DB954" />
+                <Text style={styles.pinButtonText}>Save next set</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.doneButton} onPress={onClose} activeOpacity={0.8}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+
+        {isBlendId(playlist.id) && (
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={() => deleteBlend(playlist.id, { onSuccess: onClose })}
+            disabled={isDeletingBlend}
+            activeOpacity={0.8}
+          >
+            <Trash2 size={16} color="#EF4444" />
+            <Text style={styles.deleteButtonText}>Delete blend</Text>
+          </TouchableOpacity>
+        )}
+
+        {isAddedTrackSourceId(playlist.id) && (
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={() => removeSource(playlist.id, { onSuccess: onClose })}
+            disabled={isRemovingSource}
+            activeOpacity={0.8}
+          >
+            <Trash2 size={16} color="#EF4444" />
+            <Text style={styles.deleteButtonText}>Remove source</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </ModalCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  detailsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  detailsLinkText: {
+    color: '#1DB954',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  sectionDescription: {
+    color: '#6B7280',
+    fontSize: 13,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipSelected: {
+    backgroundColor: '#1DB954',
+    borderColor: '#1DB954',
+  },
+  chipText: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#000',
+  },
+  subOptions: {
+    marginTop: 10,
+  },
+  pinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  pinButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+  },
+  pinButtonText: {
+    color: '#1DB954',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  pinClearText: {
+    color: '#9CA3AF',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  seedText: {
+    color: '#E5E7EB',
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  reportText: {
+    color: '#1DB954',
+    fontSize: 13,
+    marginTop: 10,
+  },
+  doneButton: {
+    marginTop: 28,
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: '#1DB954',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+    paddingVertical: 12,
+  },
+  deleteButtonText: {
+    color: '#EF4444',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  doneButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+});
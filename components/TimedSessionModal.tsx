@@ -0,0 +1,189 @@
+/**
+ * Timed Session Modal
+ *
+ * "Give me 45 minutes" - pick a listening time and a playlist, and Flux builds
+ * a set of unheard tracks that fills that time as closely as possible.
+ *
+ * Design Philosophy:
+ * - Same card look as AlertModal and ShuffleSettingsModal
+ * - Duration first (it's why the user is here), then a tap on a playlist starts it
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image } from 'react-native';
+import { Timer } from 'lucide-react-native';
+import ModalCard from '@/components/ModalCard';
+import type { SpotifyPlaylist } from '@/types/spotify';
+
+interface TimedSessionModalProps {
+  isVisible: boolean;
+  playlists: SpotifyPlaylist[];
+  onClose: () => void;
+  onStart: (playlist: SpotifyPlaylist, targetMinutes: number) => void;
+}
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120]; // Minutes
+const DEFAULT_DURATION = 45;
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${Math.floor(minutes / 60)} h ${minutes % 60}`;
+}
+
+export default function TimedSessionModal({ isVisible, playlists, onClose, onStart }: TimedSessionModalProps) {
+  const [targetMinutes, setTargetMinutes] = useState(DEFAULT_DURATION);
+
+  if (!isVisible) {
+    return null;
+  }
+
+  return (
+    <ModalCard isVisible={isVisible}>
+      <View style={styles.iconContainer}>
+        <Timer size={32} color="#1DB954" />
+      </View>
+      <Text style={styles.title}>Timed Session</Text>
+      <Text style={styles.subtitle}>Unheard songs that fill the time you have</Text>
+
+      <View style={styles.chipRow}>
+        {DURATION_OPTIONS.map(minutes => {
+          const isSelected = minutes === targetMinutes;
+          return (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => setTargetMinutes(minutes)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {formatMinutes(minutes)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.sectionTitle}>From</Text>
+      <ScrollView style={styles.playlistList} showsVerticalScrollIndicator={false}>
+        {playlists.map(playlist => (
+          <TouchableOpacity
+            key={playlist.id}
+            style={styles.playlistRow}
+            onPress={() => onStart(playlist, targetMinutes)}
+            activeOpacity={0.8}
+          >
+            <Image
+              source={{ uri: playlist.images?.[0]?.url }}
+              style={styles.playlistImage}
+            />
+            <View style={styles.playlistInfo}>
+              <Text style={styles.playlistName} numberOfLines={1}>{playlist.name}</Text>
+              <Text style={styles.playlistMeta}>{playlist.tracks.total} tracks</Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={onClose} activeOpacity={0.8}>
+        <Text style={styles.secondaryButtonText}>Cancel</Text>
+      </TouchableOpacity>
+    </ModalCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(29, 185, 84, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipSelected: {
+    backgroundColor: '#1DB954',
+    borderColor: '#1DB954',
+  },
+  chipText: {
+    color: '#9CA3AF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#000',
+  },
+  sectionTitle: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  playlistList: {
+    flexGrow: 0,
+    maxHeight: 300,
+  },
+  playlistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  playlistImage: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    backgroundColor: '#333',
+  },
+  playlistInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  playlistName: {
+    color: '#E5E7EB',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  playlistMeta: {
+    color: '#6B7280',
+    fontSize: 13,
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#9CA3AF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -4,8 +4,13 @@ import type { SpotifyUser, SpotifyPlaylist, SpotifyTrack } from '@/types/spotify
 import { 
   useSpotifyUser, 
   useSpotifyPlaylists,
-  useSpotifySavedTracks 
+  useSpotifySavedTracks,
+  useBlends,
+  useTrackSources
 } from '@/hooks/useSpotifyQueries';
+import { createBlendPlaylist } from '@/utils/blends';
+import { createTrackSourcePlaylist } from '@/utils/trackSources';
+import { requiresReauthentication } from '@/utils/spotifyErrors';
 import { useQueryClient } from '@tanstack/react-query';
 import { spotifyQueryKeys } from '@/hooks/useSpotifyQueries';
 
@@ -17,7 +22,9 @@ interface SpotifyContextType {
   playlistsLoading: boolean;
   savedTracks: SpotifyTrack[];
   savedTracksLoading: boolean;
-  allPlaylistsWithLiked: SpotifyPlaylist[]; // Playlists with "Liked Songs" at the top
+  allPlaylistsWithLiked: SpotifyPlaylist[]; // Playlists with "Liked Songs", blends and added sources at the top
+  blendPlaylists: SpotifyPlaylist[]; // Synthetic playlists for the user's blends
+  trackSourcePlaylists: SpotifyPlaylist[]; // Synthetic playlists for added sources (saved albums, artists, shared playlists)
   needsReauth: boolean; // Whether user needs to re-authenticate for new scopes
   currentPlaylist: SpotifyPlaylist | null; // We can still keep this for UI purposes
   login: () => Promise<boolean>;
@@ -82,8 +89,7 @@ export function SpotifyProvider({ children }: { children: ReactNode }) {
 
   // Check if we need re-authentication based on saved tracks error
   React.useEffect(() => {
-    if (isAuthenticated && savedTracksError && 
-        (savedTracksError as any)?.message?.includes('Insufficient client scope')) {
+    if (isAuthenticated && requiresReauthentication(savedTracksError)) {
       setNeedsReauth(true);
     } else if (isAuthenticated && savedTracks.length > 0) {
       // If we successfully got saved tracks, we have the right scopes
@@ -137,11 +143,29 @@ export function SpotifyProvider({ children }: { children: ReactNode }) {
     };
   }, [user, savedTracks.length, savedTracksActuallyLoading]);
 
-  // Combine liked songs with regular playlists (liked songs at the top)
+  // Blends are stored locally and presented as synthetic playlists
+  const { data: blends = [] } = useBlends(isAuthenticated);
+
+  const blendPlaylists = useMemo(() => {
+    if (!user) return [];
+    const sources = likedSongsPlaylist ? [likedSongsPlaylist, ...playlists] : playlists;
+    return blends.map(blend => createBlendPlaylist(blend, user, sources));
+  }, [user, blends, likedSongsPlaylist, playlists]);
+
+  // Saved albums, artists and shared playlists the user added are presented the same way
+  const { data: trackSources = [] } = useTrackSources(isAuthenticated);
+
+  const trackSourcePlaylists = useMemo(() => {
+    if (!user) return [];
+    return trackSources.map(source => createTrackSourcePlaylist(source, user));
+  }, [user, trackSources]);
+
+  // Combine liked songs, blends and added sources with regular playlists (liked songs at the top)
   const allPlaylistsWithLiked = useMemo(() => {
-    if (!likedSongsPlaylist) return playlists;
-    return [likedSongsPlaylist, ...playlists];
-  }, [likedSongsPlaylist, playlists]);
+    const extras = [...blendPlaylists, ...trackSourcePlaylists];
+    if (!likedSongsPlaylist) return [...extras, ...playlists];
+    return [likedSongsPlaylist, ...extras, ...playlists];
+  }, [likedSongsPlaylist, blendPlaylists, trackSourcePlaylists, playlists]);
 
   const login = async (): Promise<boolean> => {
     const success = await spotifyService.authenticate();
@@ -204,6 +228,8 @@ export function SpotifyProvider({ children }: { children: ReactNode }) {
       savedTracks,
       savedTracksLoading: savedTracksActuallyLoading,
       allPlaylistsWithLiked,
+      blendPlaylists,
+      trackSourcePlaylists,
       needsReauth,
       currentPlaylist,
       login,
@@ -1,13 +1,82 @@
-import { useQuery, useMutation, useQueryClient, CancelledError } from '@tanstack/react-query';
-import { SpotifyService } from '@/utils/spotify';
-import type { SpotifyUser, SpotifyPlaylist, SpotifyTrack } from '@/types/spotify';
-import { getSmartShuffledTracks, getPlaylistProgress, type ShuffleStats } from '@/utils/smartShuffle';
+import { useQuery, useQueries, useMutation, useQueryClient, CancelledError, type QueryClient } from '@tanstack/react-query';
+import { SpotifyService, PLAY_URIS_LIMIT } from '@/utils/spotify';
+import type { SpotifyUser, SpotifyPlaylist, SpotifyTrack, SpotifyArtist } from '@/types/spotify';
+import {
+  getSmartShuffledTracks,
+  getPlaylistProgress,
+  loadShuffleMemory,
+  resetPlaylistMemory,
+  ensureShuffleMemory,
+  markTracksAsPlayed,
+  rollbackUnqueuedTracks,
+  refreshBlockedTrackIds,
+  getTrackedPlaylists,
+  loadExcludedTrackIds,
+  saveExcludedTrackIds,
+  loadShuffleSettings,
+  saveShuffleSettings,
+  describeSetSizeStrategy,
+  describeQueueMode,
+  type StartStrategy,
+  type ShuffleStats,
+  type ShuffleSettings,
+} from '@/utils/smartShuffle';
 import { getGlobalStats, type GlobalStats } from '@/utils/statistics';
+import { NoActiveDeviceError, RequestRejectedError, isSpotifyApiError } from '@/utils/spotifyErrors';
+import {
+  getBlends,
+  createBlend,
+  deleteBlend,
+  type PlaylistBlend,
+} from '@/utils/blends';
+import {
+  getTrackSourceProvider,
+  isAddedTrackSourceId,
+  getTrackSources,
+  addTrackSource,
+  removeTrackSource,
+  createSavedAlbumsSource,
+  createArtistSource,
+  createSharedPlaylistSource,
+  parsePlaylistReference,
+  type AddedTrackSource,
+} from '@/utils/trackSources';
 import {
   showQueueErrorNotification,
   dismissNotification,
 } from '@/utils/notificationService';
-import { startBackgroundQueue, getActiveQueuePlaylistId } from '@/services/queueBackgroundService';
+import {
+  startBackgroundQueue,
+  getActiveQueuePlaylistId,
+  getQueueProgress,
+  pauseBackgroundQueue,
+  resumeBackgroundQueue,
+  cancelBackgroundQueue,
+  getInterruptedQueue,
+  resumeInterruptedQueue,
+  rollBackInterruptedQueue,
+  enqueueBackgroundQueue,
+  cancelQueueJob,
+  isQueueActive,
+  getInFlightTrackIds,
+} from '@/services/queueBackgroundService';
+import { getQueueJobs, clearFinishedJobs } from '@/utils/queueJobs';
+import { getRecentPlaylists } from '@/utils/recentPlaylists';
+import {
+  getBlocklist,
+  blockArtist,
+  blockTrack,
+  unblockArtist,
+  unblockTrack,
+  importBlocklist,
+  type Blocklist,
+} from '@/utils/blocklist';
+import {
+  loadPlaylistListOptions,
+  savePlaylistListOptions,
+  type PlaylistListOptions,
+} from '@/utils/playlistListOptions';
+import { saveSetAsPlaylist } from '@/services/playlistExportService';
 
 const spotifyService = SpotifyService;
 
@@ -20,10 +89,51 @@ export const spotifyQueryKeys = {
   devices: ['spotify', 'devices'] as const,
   queueStatus: ['spotify', 'queue-status'] as const,
   activeQueuePlaylistId: ['spotify', 'active-queue-playlist-id'] as const,
+  interruptedQueue: ['spotify', 'interrupted-queue'] as const,
+  queueJobs: ['spotify', 'queue-jobs'] as const,
   playlistProgress: (playlistId: string) => ['spotify', 'playlist', playlistId, 'progress'] as const,
+  shuffleSettings: (playlistId: string) => ['spotify', 'playlist', playlistId, 'shuffle-settings'] as const,
+  shuffleMemory: (playlistId: string) => ['spotify', 'playlist', playlistId, 'shuffle-memory'] as const,
+  excludedTracks: (playlistId: string) => ['spotify', 'playlist', playlistId, 'exclusions'] as const,
+  sourceTracks: (playlistId: string) => ['flux', 'source', playlistId, 'tracks'] as const,
   globalStats: ['spotify', 'global-stats'] as const,
+  blends: ['flux', 'blends'] as const,
+  trackSources: ['flux', 'track-sources'] as const,
+  followedArtists: ['spotify', 'followed-artists'] as const,
+  recentPlaylists: ['flux', 'recent-playlists'] as const,
+  playlistListOptions: ['flux', 'playlist-list-options'] as const,
+  blocklist: ['flux', 'blocklist'] as const,
 };
 
+/**
+ * Resolve the tracks of anything shuffleable (see utils/trackSources)
+ * Uses the React Query cache so repeated shuffles don't refetch
+ */
+export async function fetchShuffleSourceTracks(queryClient: QueryClient, playlistId: string): Promise<SpotifyTrack[]> {
+  const provider = getTrackSourceProvider(playlistId);
+  const context = { fetchSourceTracks: (sourceId: string) => fetchShuffleSourceTracks(queryClient, sourceId) };
+
+  // Blends aren't cached themselves - their sources are
+  if (provider.kind === 'blend') {
+    const tracks = await provider.fetchTracks(playlistId, context);
+    await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.blends });
+    return tracks;
+  }
+
+  const tracks = await queryClient.fetchQuery({
+    // Liked Songs share their cache with the saved tracks query
+    queryKey: provider.kind === 'liked-songs' ? spotifyQueryKeys.savedTracks : spotifyQueryKeys.playlistTracks(playlistId),
+    queryFn: () => provider.fetchTracks(playlistId, context),
+  });
+
+  // Added sources learn their real track count on the first fetch
+  if (isAddedTrackSourceId(playlistId)) {
+    await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.trackSources });
+  }
+
+  return tracks;
+}
+
 // User query
 export function useSpotifyUser() {
   return useQuery({
@@ -57,24 +167,16 @@ export function useSpotifyPlaylists(enabled: boolean = true) {
 export function useSpotifySavedTracks(enabled: boolean = true) {
   return useQuery({
     queryKey: spotifyQueryKeys.savedTracks,
+    // Scope errors are kept as query errors so SpotifyContext can ask the user to reconnect
     queryFn: async (): Promise<SpotifyTrack[]> => {
-      try {
-        return await spotifyService.getUserSavedTracks();
-      } catch (error: any) {
-        // If insufficient scope, return empty array instead of failing
-        if (error?.message?.includes('Insufficient client scope')) {
-          return [];
-        }
-        // Re-throw other errors
-        throw error;
-      }
+      return await spotifyService.getUserSavedTracks();
     },
     enabled,
     staleTime: 15 * 60 * 1000, // 15 minutes - liked songs don't change that often
     gcTime: 30 * 60 * 1000, // 30 minutes - keep in cache longer
-    retry: (failureCount, error: any) => {
-      // Don't retry on insufficient scope errors
-      if (error?.message?.includes('Insufficient client scope')) {
+    retry: (failureCount, error) => {
+      // Don't retry errors that need the user (reconnect, Premium, ...)
+      if (isSpotifyApiError(error) && !error.retryable) {
         return false;
       }
       // Default retry behavior for other errors
@@ -120,38 +222,33 @@ export function useSpotifyDevices(enabled: boolean = true) {
   });
 }
 
-// Queue status query for real-time progress updates
-interface QueueStatus {
-  isActive: boolean;
-  progress: number;
-  total: number;
-  currentTrack?: string;
-  playlistId?: string;
-  playlistName?: string;
-}
-
+// Queue status query - progress and paused state of the background queue (null when idle)
 export function useQueueStatus(enabled: boolean = true) {
   return useQuery({
     queryKey: spotifyQueryKeys.queueStatus,
-    queryFn: async (): Promise<QueueStatus> => {
-      // This would be implemented to read from AsyncStorage or a service
-      // For now, returning a default inactive state
-      return {
-        isActive: false,
-        progress: 0,
-        total: 0,
-      };
+    queryFn: async () => {
+      const progress = await getQueueProgress();
+      // Interrupted queues are handled by useInterruptedQueue instead
+      return progress?.isActive && !progress.isInterrupted ? progress : null;
     },
     enabled,
     staleTime: 1 * 1000, // 1 second - needs to be very fresh for progress
-    refetchInterval: enabled ? 1 * 1000 : false, // Poll every second when enabled
+    gcTime: 5 * 1000,
+    refetchInterval: enabled ? 2 * 1000 : false, // Same cadence as useActiveQueuePlaylistId
+    refetchOnMount: true,
+    refetchOnWindowFocus: true,
+    retry: 0,
   });
 }
 
 // Queue shuffle mutation
-interface QueueShuffleParams {
+export interface QueueShuffleParams {
   playlist: SpotifyPlaylist;
   tracks?: SpotifyTrack[];
+  seed?: number; // Replay a recorded seed to regenerate a set exactly
+  targetMinutes?: number; // Timed session - fill this much listening time instead of the usual set size
+  startStrategy?: StartStrategy; // Defaults to the playlist's setting
+  saveAsPlaylist?: boolean; // Save the set as a "Flux: <playlist>" playlist instead of queueing it
 }
 
 export interface QueueShuffleProgress {
@@ -164,35 +261,76 @@ export interface QueueShuffleProgress {
 // NOTE: batchQueueTracks has been removed and replaced with startBackgroundQueue
 // from queueBackgroundService.ts which handles background execution properly
 
+/**
+ * Start playing a set on a device
+ * Fast start puts the whole set into playback with one play request (callers cap
+ * the set at PLAY_URIS_LIMIT and line up the rest). Falls back to playing the first track if Spotify
+ * rejects the larger request, and the background queue adds the rest.
+ *
+ * @returns How many leading tracks of the set Spotify already has
+ */
+async function startSetPlayback(uris: string[], deviceId: string, strategy: StartStrategy): Promise<number> {
+  if (strategy === 'fast-start' && uris.length > 1) {
+    try {
+      await spotifyService.playUriBatch(uris, deviceId);
+      console.log(`[QueueShuffle] Fast start: ${uris.length} tracks sent with the play request`);
+      return uris.length;
+    } catch (error) {
+      // Device, account and rate limit errors would fail the single-track request too
+      if (!(error instanceof RequestRejectedError)) throw error;
+      console.warn('[QueueShuffle] Fast start rejected, falling back to queueing one by one:', error);
+    }
+  }
+
+  await spotifyService.playUris([uris[0]], deviceId);
+  return 1;
+}
+
 export function useQueueShuffleMutation() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (variables: QueueShuffleParams): Promise<boolean> => {
-      const { playlist } = variables;
+      const { playlist, seed, targetMinutes, saveAsPlaylist } = variables;
       let { tracks } = variables;
 
       // Fetch tracks if not provided
       if (!tracks || tracks.length === 0 || tracks.some(track => track.uri === null)) {
-        if (playlist.id === 'liked-songs') {
-          tracks = await queryClient.fetchQuery({
-            queryKey: spotifyQueryKeys.savedTracks,
-            queryFn: () => spotifyService.getUserSavedTracks(),
-          });
-        } else {
-          tracks = await queryClient.fetchQuery({
-            queryKey: spotifyQueryKeys.playlistTracks(playlist.id),
-            queryFn: () => spotifyService.getPlaylistTracks(playlist.id),
-          });
-        }
+        tracks = await fetchShuffleSourceTracks(queryClient, playlist.id);
       }
 
       if (!tracks || tracks.length === 0) return false;
 
+      // Liked songs boost tracks in weighted mode (uses cached saved tracks, no extra request)
+      const likedTracks = queryClient.getQueryData<SpotifyTrack[]>(spotifyQueryKeys.savedTracks);
+
+      // Another queue is running - this set gets lined up behind it (saving a playlist doesn't touch the queue)
+      const isLiningUp = !saveAsPlaylist && (await isQueueActive());
+
+      // A lined-up set of a playlist that's still queueing must not draw the same (still unheard) tracks again
+      const inFlightTrackIds = isLiningUp ? await getInFlightTrackIds(playlist.id) : [];
+
+      // Timed sessions, replays, lined-up and saved sets have a fixed size, so they're queued (or saved) whole
+      const settings = await loadShuffleSettings(playlist.id);
+      const { queueMode } = settings;
+      const dripMode = queueMode.type === 'drip' && !targetMinutes && seed === undefined && !isLiningUp && !saveAsPlaylist
+        ? queueMode
+        : undefined;
+
       // Use smart shuffle with memory
-      const { tracks: smartShuffledTracks, stats } = await getSmartShuffledTracks(
+      const { tracks: smartShuffledTracks, stats, setSize } = await getSmartShuffledTracks(
         playlist.id,
-        tracks
+        tracks,
+        {
+          likedTrackIds: likedTracks?.map(track => track.id),
+          seed,
+          setSize: targetMinutes
+            ? { type: 'duration', minutes: targetMinutes }
+            : dripMode
+              ? { type: 'fixed', trackCount: dripMode.bufferSize + 1 } // Playing track + buffer
+              : undefined,
+          excludeTrackIds: inFlightTrackIds.length > 0 ? inFlightTrackIds : undefined,
+        }
       );
 
       if (!smartShuffledTracks || smartShuffledTracks.length === 0) {
@@ -200,31 +338,82 @@ export function useQueueShuffleMutation() {
         return false;
       }
 
-      const first = smartShuffledTracks[0];
+      const jobStats = {
+        remaining: stats.remaining,
+        addedTracks: stats.changes?.added,
+        setSizeLabel: dripMode ? describeQueueMode(dripMode) : describeSetSizeStrategy(setSize),
+      };
+
+      // Materialize the set as a playlist - nothing is played or queued
+      if (saveAsPlaylist) {
+        await saveSetAsPlaylist({
+          playlistId: playlist.id,
+          playlistName: playlist.name,
+          tracks: smartShuffledTracks,
+        });
+        return true;
+      }
+
+      // Line the set up instead of interrupting playback
+      if (isLiningUp) {
+        return await enqueueBackgroundQueue({
+          playlistId: playlist.id,
+          playlistName: playlist.name,
+          tracks: smartShuffledTracks,
+          stats: jobStats,
+        });
+      }
+
+      // Drip-feed keeps its tracks in the queue, where it can count them
+      const startStrategy = dripMode ? 'queue' : variables.startStrategy ?? settings.startStrategy;
+
+      // A play request takes at most PLAY_URIS_LIMIT tracks - fast start plays the first
+      // chunk and lines the rest up as a job behind it
+      const isSplit = startStrategy === 'fast-start' && smartShuffledTracks.length > PLAY_URIS_LIMIT;
+      const setTracks = isSplit ? smartShuffledTracks.slice(0, PLAY_URIS_LIMIT) : smartShuffledTracks;
+      const first = setTracks[0];
 
       // Get Device and Play First Track
-      const playlistUri = playlist.id === 'liked-songs' ? 'spotify:collection:tracks' : playlist.uri;
+      // Blends have no Spotify context, so only the track is used for the deeplink
+      const playlistUri = playlist.id === 'liked-songs' ? 'spotify:collection:tracks' : playlist.uri || undefined;
       const ensuredDeviceId = await spotifyService.ensureActiveDevice(first.uri, playlistUri);
       if (!ensuredDeviceId) {
-        await showQueueErrorNotification('No active Spotify device found. Please open Spotify.');
-        return false;
+        // Reported through onError, so the UI can offer to open Spotify
+        throw new NoActiveDeviceError();
       }
       await spotifyService.transferPlayback(ensuredDeviceId, true);
-      await spotifyService.playUris([first.uri], ensuredDeviceId);
+
+      const playedTrackCount = await startSetPlayback(
+        setTracks.map(track => track.uri),
+        ensuredDeviceId,
+        startStrategy
+      );
 
       // Start background queue process with foreground service
       // This will continue even if the app is backgrounded
       const success = await startBackgroundQueue({
         playlistId: playlist.id,
         playlistName: playlist.name,
-        tracks: smartShuffledTracks,
+        tracks: setTracks,
         deviceId: ensuredDeviceId,
         firstTrackUri: first.uri,
-        stats: {
-          remaining: stats.remaining,
-        },
+        playedTrackCount,
+        queueMode: dripMode,
+        stats: jobStats,
       });
 
+      // Queued once the first chunk's job is done, like any lined-up set. Spotify plays
+      // queued tracks ahead of what's left of the play request, so the rest may come up
+      // early, but every track of the set reaches Spotify
+      if (success && isSplit) {
+        return await enqueueBackgroundQueue({
+          playlistId: playlist.id,
+          playlistName: playlist.name,
+          tracks: smartShuffledTracks.slice(PLAY_URIS_LIMIT),
+          stats: jobStats,
+        });
+      }
+
       return success;
     },
     onSuccess: async (success, variables) => {
@@ -240,7 +429,7 @@ export function useQueueShuffleMutation() {
       //      (same cached data returns, no visual change until handleTaskComplete runs)
       //
       // 3. globalStats: NOT invalidated here
-      //    - Only invalidated in handleTaskComplete after tracks are marked as played
+      //    - Only invalidated by the listening session monitor after tracks are heard
       //
       // This ensures immediate UI feedback when clicking completed playlists (golden ring removal)
 
@@ -260,6 +449,26 @@ export function useQueueShuffleMutation() {
           refetchType: 'active',
         });
 
+        // New running or pending job
+        await queryClient.invalidateQueries({
+          queryKey: spotifyQueryKeys.queueJobs,
+          refetchType: 'active',
+        });
+
+        // The home screen may be sorted by recently shuffled
+        await queryClient.invalidateQueries({
+          queryKey: spotifyQueryKeys.recentPlaylists,
+          refetchType: 'active',
+        });
+
+        // A newly created export playlist shows up in the library
+        if (variables.saveAsPlaylist) {
+          await queryClient.invalidateQueries({
+            queryKey: spotifyQueryKeys.playlists,
+            refetchType: 'active',
+          });
+        }
+
         console.log('[QueueShuffle] ✅ Visual feedback triggered - UI will update now');
       }
     },
@@ -294,6 +503,31 @@ export function usePlaylistProgress(playlistId: string | null, totalTracks: numb
   });
 }
 
+// Progress of many playlists at once (home screen filters and sorting)
+// Shares its cache entries with usePlaylistProgress, so the cards don't load progress twice
+export function usePlaylistsProgress(playlists: SpotifyPlaylist[], enabled: boolean = true) {
+  return useQueries({
+    queries: playlists.map(playlist => ({
+      queryKey: spotifyQueryKeys.playlistProgress(playlist.id),
+      queryFn: async (): Promise<ShuffleStats | null> => {
+        if (playlist.tracks.total === 0) return null;
+        return await getPlaylistProgress(playlist.id, playlist.tracks.total);
+      },
+      enabled: enabled && playlist.tracks.total > 0,
+      staleTime: 3 * 1000,
+      gcTime: 60 * 1000,
+      retry: 0,
+    })),
+    combine: (results) => {
+      const progress: Record<string, ShuffleStats | null | undefined> = {};
+      results.forEach((result, index) => {
+        progress[playlists[index].id] = result.data;
+      });
+      return progress;
+    },
+  });
+}
+
 // Global stats query - aggregates statistics across all tracked playlists
 export function useGlobalStats(enabled: boolean = true, enablePolling: boolean = false) {
   return useQuery({
@@ -326,3 +560,531 @@ export function useActiveQueuePlaylistId() {
     retry: 0, // Don't retry - this is just for UI feedback
   });
 }
+
+// Queue control mutation - pause, resume or cancel the background queue
+export function useQueueControlMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (action: 'pause' | 'resume' | 'cancel'): Promise<boolean> => {
+      switch (action) {
+        case 'pause':
+          return await pauseBackgroundQueue();
+        case 'resume':
+          return await resumeBackgroundQueue();
+        case 'cancel':
+          return await cancelBackgroundQueue();
+      }
+    },
+    onSettled: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.queueStatus });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.activeQueuePlaylistId });
+    },
+  });
+}
+
+// Interrupted queue query - a queue cut short by an app kill, waiting for resume or rollback
+export function useInterruptedQueue(enabled: boolean = true) {
+  return useQuery({
+    queryKey: spotifyQueryKeys.interruptedQueue,
+    queryFn: async () => {
+      return await getInterruptedQueue();
+    },
+    enabled,
+    staleTime: Infinity, // Only changes through useInterruptedQueueMutation
+    retry: 0,
+  });
+}
+
+// Interrupted queue mutation - resume on a device, or roll the remaining tracks back
+export type InterruptedQueueAction =
+  | { type: 'resume'; deviceId?: string }
+  | { type: 'rollback' };
+
+export function useInterruptedQueueMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (action: InterruptedQueueAction): Promise<boolean> => {
+      if (action.type === 'resume') {
+        return await resumeInterruptedQueue(action.deviceId);
+      }
+      return await rollBackInterruptedQueue();
+    },
+    onSettled: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.interruptedQueue });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.queueStatus });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.activeQueuePlaylistId });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.globalStats });
+    },
+  });
+}
+
+// Queue jobs query - running, pending and recently finished jobs (oldest first)
+export function useQueueJobs(enabled: boolean = true) {
+  return useQuery({
+    queryKey: spotifyQueryKeys.queueJobs,
+    queryFn: async () => {
+      return await getQueueJobs();
+    },
+    enabled,
+    staleTime: 1 * 1000,
+    refetchInterval: enabled ? 2 * 1000 : false, // Same cadence as useQueueStatus
+    retry: 0,
+  });
+}
+
+// Cancel a queue job - drops a pending job or cancels the running one
+export function useCancelQueueJobMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (jobId: string): Promise<boolean> => {
+      return await cancelQueueJob(jobId);
+    },
+    onSettled: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.queueJobs });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.queueStatus });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.activeQueuePlaylistId });
+    },
+  });
+}
+
+// Clear finished jobs from the job history
+export function useClearFinishedJobsMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<void> => {
+      await clearFinishedJobs();
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.queueJobs });
+    },
+  });
+}
+
+// Shuffle settings query - per-playlist options like artist/album spacing
+export function useShuffleSettings(playlistId: string | null, enabled: boolean = true) {
+  return useQuery({
+    queryKey: playlistId ? spotifyQueryKeys.shuffleSettings(playlistId) : ['spotify', 'playlist', 'none', 'shuffle-settings'],
+    queryFn: async (): Promise<ShuffleSettings | null> => {
+      if (!playlistId) return null;
+      return await loadShuffleSettings(playlistId);
+    },
+    enabled: enabled && !!playlistId,
+    staleTime: Infinity, // Only changes through useUpdateShuffleSettingsMutation
+    retry: 0,
+  });
+}
+
+// Shuffle memory query - raw memory for a playlist (last set details, heard tracks)
+export function useShuffleMemory(playlistId: string | null, enabled: boolean = true) {
+  return useQuery({
+    queryKey: playlistId ? spotifyQueryKeys.shuffleMemory(playlistId) : ['spotify', 'playlist', 'none', 'shuffle-memory'],
+    queryFn: async () => {
+      if (!playlistId) return null;
+      return await loadShuffleMemory(playlistId);
+    },
+    enabled: enabled && !!playlistId,
+    staleTime: 3 * 1000, // 3 seconds - same freshness as progress
+    retry: 0,
+  });
+}
+
+// Tracks of any shuffle source (playlist, Liked Songs, blend or added source)
+export function useShuffleSourceTracks(playlistId: string | null, enabled: boolean = true) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: playlistId ? spotifyQueryKeys.sourceTracks(playlistId) : ['flux', 'source', 'none', 'tracks'],
+    queryFn: async (): Promise<SpotifyTrack[]> => {
+      if (!playlistId) return [];
+      return await fetchShuffleSourceTracks(queryClient, playlistId);
+    },
+    enabled: enabled && !!playlistId,
+    staleTime: 15 * 60 * 1000, // Same as the playlist tracks it's built from
+    retry: 0,
+  });
+}
+
+// Forget which tracks of a playlist were heard and start a new cycle from scratch
+export function useResetPlaylistMemoryMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (playlistId: string): Promise<void> => {
+      await resetPlaylistMemory(playlistId);
+    },
+    onSuccess: async (_, playlistId) => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.shuffleMemory(playlistId) });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.playlistProgress(playlistId) });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.globalStats });
+    },
+  });
+}
+
+export interface TrackHeardParams {
+  playlistId: string;
+  tracks: SpotifyTrack[];       // All tracks of the playlist (creates the memory if it doesn't exist yet)
+  trackIds: string[];
+  heard: boolean;
+}
+
+// Mark tracks as heard or unheard by hand (e.g. after listening in the Spotify app)
+export function useSetTracksHeardMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ playlistId, tracks, trackIds, heard }: TrackHeardParams): Promise<void> => {
+      const memory = await ensureShuffleMemory(playlistId, tracks);
+
+      let success: boolean;
+      if (heard) {
+        success = await markTracksAsPlayed(playlistId, trackIds);
+      } else {
+        // A song heard under another release would otherwise still count as heard
+        const ids = new Set(trackIds);
+        for (const group of memory.duplicateGroups ?? []) {
+          if (group.some(id => ids.has(id))) {
+            group.forEach(id => ids.add(id));
+          }
+        }
+        success = await rollbackUnqueuedTracks(playlistId, [...ids]);
+      }
+
+      if (!success) {
+        throw new Error('Could not update the shuffle memory');
+      }
+    },
+    // Same refresh as after a queued set completes, so progress rings update
+    onSuccess: async (_, { playlistId }) => {
+      await queryClient.invalidateQueries({
+        queryKey: spotifyQueryKeys.playlistProgress(playlistId),
+        refetchType: 'active',
+      });
+      await queryClient.invalidateQueries({
+        queryKey: spotifyQueryKeys.shuffleMemory(playlistId),
+        refetchType: 'active',
+      });
+      await queryClient.invalidateQueries({
+        queryKey: spotifyQueryKeys.globalStats,
+        refetchType: 'active',
+      });
+    },
+  });
+}
+
+// Tracks a playlist never shuffles in
+export function useExcludedTracks(playlistId: string | null, enabled: boolean = true) {
+  return useQuery({
+    queryKey: playlistId ? spotifyQueryKeys.excludedTracks(playlistId) : ['spotify', 'playlist', 'none', 'exclusions'],
+    queryFn: async (): Promise<string[]> => {
+      if (!playlistId) return [];
+      return await loadExcludedTrackIds(playlistId);
+    },
+    enabled: enabled && !!playlistId,
+    staleTime: Infinity, // Only changes through useSetTracksExcludedMutation (shuffles just drop removed tracks)
+    retry: 0,
+  });
+}
+
+// Exclude tracks from a playlist's shuffles or let them back in
+export function useSetTracksExcludedMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ playlistId, trackIds, excluded }: {
+      playlistId: string;
+      trackIds: string[];
+      excluded: boolean;
+    }): Promise<string[]> => {
+      const current = await loadExcludedTrackIds(playlistId);
+      const changed = new Set(trackIds);
+      const updated = excluded
+        ? [...current, ...trackIds.filter(id => !current.includes(id))]
+        : current.filter(id => !changed.has(id));
+
+      await saveExcludedTrackIds(playlistId, updated);
+      return updated;
+    },
+    onSuccess: async (updated, { playlistId }) => {
+      queryClient.setQueryData(spotifyQueryKeys.excludedTracks(playlistId), updated);
+
+      // Excluded tracks no longer count toward progress
+      await queryClient.invalidateQueries({
+        queryKey: spotifyQueryKeys.playlistProgress(playlistId),
+        refetchType: 'active',
+      });
+      await queryClient.invalidateQueries({
+        queryKey: spotifyQueryKeys.globalStats,
+        refetchType: 'active',
+      });
+    },
+  });
+}
+
+// Save shuffle settings for a playlist
+export function useUpdateShuffleSettingsMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ playlistId, settings }: { playlistId: string; settings: ShuffleSettings }): Promise<ShuffleSettings> => {
+      await saveShuffleSettings(playlistId, settings);
+      return settings;
+    },
+    onSuccess: (settings, { playlistId }) => {
+      queryClient.setQueryData(spotifyQueryKeys.shuffleSettings(playlistId), settings);
+    },
+  });
+}
+
+// Blends query - virtual playlists made of several sources
+export function useBlends(enabled: boolean = true) {
+  return useQuery({
+    queryKey: spotifyQueryKeys.blends,
+    queryFn: async (): Promise<PlaylistBlend[]> => {
+      return await getBlends();
+    },
+    enabled,
+    staleTime: Infinity, // Only changes through the blend mutations below
+    retry: 0,
+  });
+}
+
+// Create a blend from several playlists (and optionally Liked Songs)
+export function useCreateBlendMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, sources }: { name: string; sources: SpotifyPlaylist[] }): Promise<PlaylistBlend> => {
+      const estimatedTrackCount = sources.reduce((sum, source) => sum + source.tracks.total, 0);
+      return await createBlend(name, sources.map(source => source.id), estimatedTrackCount);
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.blends });
+    },
+  });
+}
+
+// Delete a blend and its shuffle memory
+export function useDeleteBlendMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (blendId: string): Promise<void> => {
+      await deleteBlend(blendId);
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.blends });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.globalStats });
+    },
+  });
+}
+
+// Added sources query - saved albums, artists and shared playlists listed on the home screen
+export function useTrackSources(enabled: boolean = true) {
+  return useQuery({
+    queryKey: spotifyQueryKeys.trackSources,
+    queryFn: async (): Promise<AddedTrackSource[]> => {
+      return await getTrackSources();
+    },
+    enabled,
+    staleTime: Infinity, // Only changes through the source mutations below (and count updates, which invalidate)
+    retry: 0,
+  });
+}
+
+// Followed artists query - candidates for artist sources
+export function useFollowedArtists(enabled: boolean = true) {
+  return useQuery({
+    queryKey: spotifyQueryKeys.followedArtists,
+    queryFn: async (): Promise<SpotifyArtist[]> => {
+      return await spotifyService.getFollowedArtists();
+    },
+    enabled,
+    staleTime: 10 * 60 * 1000, // 10 minutes - follows change rarely
+    retry: (failureCount, error) => {
+      // A login without the user-follow-read scope needs a reconnect, not a retry
+      if (isSpotifyApiError(error) && !error.retryable) {
+        return false;
+      }
+      return failureCount < 1;
+    },
+  });
+}
+
+export type TrackSourceRequest =
+  | { type: 'saved-albums' }
+  | { type: 'artist'; artist: SpotifyArtist }
+  | { type: 'shared-playlist'; reference: string }; // Link, URI or ID of a public playlist
+
+// Add a saved-albums, artist or shared playlist source
+export function useAddTrackSourceMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: TrackSourceRequest): Promise<AddedTrackSource> => {
+      switch (request.type) {
+        case 'saved-albums':
+          return await addTrackSource(createSavedAlbumsSource());
+        case 'artist':
+          return await addTrackSource(createArtistSource(request.artist));
+        case 'shared-playlist': {
+          const playlistId = parsePlaylistReference(request.reference);
+          if (!playlistId) {
+            throw new Error("That doesn't look like a Spotify playlist link");
+          }
+
+          const playlist = await spotifyService.getPlaylist(playlistId);
+          if (!playlist) {
+            throw new Error("Couldn't load that playlist. Is it public?");
+          }
+          return await addTrackSource(createSharedPlaylistSource(playlist));
+        }
+      }
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.trackSources });
+    },
+  });
+}
+
+// Remove an added source and its shuffle memory
+export function useRemoveTrackSourceMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sourceId: string): Promise<void> => {
+      await removeTrackSource(sourceId);
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.trackSources });
+      await queryClient.invalidateQueries({ queryKey: spotifyQueryKeys.globalStats });
+    },
+  });
+}
+
+// Recently shuffled playlist IDs, most recent first
+export function useRecentPlaylists(enabled: boolean = true) {
+  return useQuery({
+    queryKey: spotifyQueryKeys.recentPlaylists,
+    queryFn: async (): Promise<string[]> => {
+      return await getRecentPlaylists();
+    },
+    enabled,
+    staleTime: 30 * 1000, // Invalidated by useQueueShuffleMutation
+    retry: 0,
+  });
+}
+
+// Saved filter and sort of the home screen playlist list
+export function usePlaylistListOptions() {
+  return useQuery({
+    queryKey: spotifyQueryKeys.playlistListOptions,
+    queryFn: async (): Promise<PlaylistListOptions> => {
+      return await loadPlaylistListOptions();
+    },
+    staleTime: Infinity, // Only changes through useUpdatePlaylistListOptionsMutation
+    retry: 0,
+  });
+}
+
+export function useUpdatePlaylistListOptionsMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: PlaylistListOptions): Promise<PlaylistListOptions> => {
+      await savePlaylistListOptions(options);
+      return options;
+    },
+    // Applied right away so the list doesn't wait for storage
+    onMutate: (options) => {
+      queryClient.setQueryData(spotifyQueryKeys.playlistListOptions, options);
+    },
+  });
+}
+
+// Global artist/track blocklist
+export function useBlocklist(enabled: boolean = true) {
+  return useQuery({
+    queryKey: spotifyQueryKeys.blocklist,
+    queryFn: async (): Promise<Blocklist> => {
+      return await getBlocklist();
+    },
+    enabled,
+    staleTime: Infinity, // Only changes through the blocklist mutations below
+    retry: 0,
+  });
+}
+
+export type BlocklistAction =
+  | { type: 'block-artist'; artist: { id: string; name: string } }
+  | { type: 'block-track'; track: SpotifyTrack }
+  | { type: 'unblock-artist'; artistId: string }
+  | { type: 'unblock-track'; trackId: string };
+
+export function useUpdateBlocklistMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (action: BlocklistAction): Promise<Blocklist> => {
+      switch (action.type) {
+        case 'block-artist':
+          return await blockArtist(action.artist);
+        case 'block-track':
+          return await blockTrack(action.track);
+        case 'unblock-artist':
+          return await unblockArtist(action.artistId);
+        case 'unblock-track':
+          return await unblockTrack(action.trackId);
+      }
+    },
+    onSuccess: async (blocklist) => {
+      queryClient.setQueryData(spotifyQueryKeys.blocklist, blocklist);
+      await applyBlocklistChange(queryClient);
+    },
+  });
+}
+
+/**
+ * Bring progress and global stats in line with a changed blocklist
+ * Playlists whose tracks are cached get their blocked tracks recomputed right
+ * away; the rest (and blends) pick the change up on their next shuffle.
+ */
+async function applyBlocklistChange(queryClient: QueryClient): Promise<void> {
+  const playlistIds = await getTrackedPlaylists();
+
+  for (const playlistId of playlistIds) {
+    const tracks = queryClient.getQueryData<SpotifyTrack[]>(
+      playlistId === 'liked-songs' ? spotifyQueryKeys.savedTracks : spotifyQueryKeys.playlistTracks(playlistId)
+    );
+    if (tracks) {
+      await refreshBlockedTrackIds(playlistId, tracks);
+    }
+
+    await queryClient.invalidateQueries({
+      queryKey: spotifyQueryKeys.playlistProgress(playlistId),
+      refetchType: 'active',
+    });
+  }
+
+  await queryClient.invalidateQueries({
+    queryKey: spotifyQueryKeys.globalStats,
+    refetchType: 'active',
+  });
+}
+
+// Merge an exported blocklist, resolving to the number of new entries
+export function useImportBlocklistMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (json: string): Promise<number> => {
+      const { blocklist, added } = await importBlocklist(json);
+      queryClient.setQueryData(spotifyQueryKeys.blocklist, blocklist);
+      await applyBlocklistChange(queryClient);
+      return added;
+    },
+  });
+}
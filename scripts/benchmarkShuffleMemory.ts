@@ -0,0 +1,114 @@
+/**
+ * Shuffle Memory Benchmark
+ *
+ * Compares the original shuffle memory layout (played track IDs as a JSON
+ * array, whole memory rewritten on every save) with the compact format
+ * (bitset over a separately stored track index) at 1k, 10k and 50k tracks,
+ * with half of each playlist heard.
+ *
+ * Measures the JavaScript side of a load and a save - JSON and encoding work
+ * on the JS thread - and the bytes handed to AsyncStorage, which is what the
+ * native write costs scale with.
+ *
+ * Run with: npx sucrase-node scripts/benchmarkShuffleMemory.ts
+ */
+
+import { encodePlayedTrackIds, decodePlayedTrackIds } from '../utils/shuffleMemoryEncoding';
+
+const TRACK_COUNTS = [1000, 10000, 50000];
+const RUNS = 25;
+const ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Deterministic 22-character IDs shaped like Spotify's
+function createTrackIds(count: number): string[] {
+  let state = 0x2545f491;
+  const next = () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return state >>> 0;
+  };
+
+  return Array.from({ length: count }, () =>
+    Array.from({ length: 22 }, () => ID_ALPHABET[next() % ID_ALPHABET.length]).join('')
+  );
+}
+
+function createMemory(trackIds: string[]) {
+  return {
+    playlistId: '37i9dQZF1DXcBWIGoYBM5M',
+    playlistHash: `${trackIds.length}_1x8k9mz`,
+    // Every other track, in the order they were heard rather than index order
+    playedTrackIds: trackIds.filter((_, i) => i % 2 === 0).reverse(),
+    cycleNumber: 3,
+    totalTracks: trackIds.length,
+    lastUpdated: Date.now(),
+    trackIds,
+  };
+}
+
+// Median of RUNS timings in milliseconds
+function time(fn: () => void): number {
+  const timings: number[] = [];
+  for (let run = 0; run < RUNS; run++) {
+    const start = performance.now();
+    fn();
+    timings.push(performance.now() - start);
+  }
+  timings.sort((a, b) => a - b);
+  return timings[Math.floor(RUNS / 2)];
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(2)} ms`;
+}
+
+const rows: string[][] = [];
+
+for (const count of TRACK_COUNTS) {
+  const trackIds = createTrackIds(count);
+  const memory = createMemory(trackIds);
+  const { playedTrackIds, trackIds: _trackIds, ...rest } = memory;
+
+  // Original layout: the whole memory, index and played IDs included
+  const legacyJson = JSON.stringify(memory);
+  const legacySave = time(() => JSON.stringify(memory));
+  const legacyLoad = time(() => JSON.parse(legacyJson));
+
+  // Compact format: memory with a bitset, index written only when the playlist changes
+  const save = () => JSON.stringify({ ...rest, format: 2, ...encodePlayedTrackIds(trackIds, playedTrackIds) });
+  const compactJson = save();
+  const indexJson = JSON.stringify({ playlistHash: memory.playlistHash, trackIds });
+  const compactSave = time(save);
+  const compactLoad = time(() => {
+    const { playedBits, extraPlayedIds } = JSON.parse(compactJson);
+    decodePlayedTrackIds(trackIds, { playedBits, extraPlayedIds });
+  });
+  const compactColdLoad = time(() => {
+    const { playedBits, extraPlayedIds } = JSON.parse(compactJson);
+    const index = JSON.parse(indexJson);
+    decodePlayedTrackIds(index.trackIds, { playedBits, extraPlayedIds });
+  });
+
+  const decoded = new Set(decodePlayedTrackIds(trackIds, JSON.parse(compactJson)));
+  if (decoded.size !== playedTrackIds.length || !playedTrackIds.every(id => decoded.has(id))) {
+    throw new Error(`Round trip lost played tracks at ${count} tracks`);
+  }
+
+  rows.push(
+    [`${count} (original)`, formatBytes(legacyJson.length), formatMs(legacySave), formatMs(legacyLoad), formatMs(legacyLoad)],
+    [`${count} (compact)`, formatBytes(compactJson.length), formatMs(compactSave), formatMs(compactLoad), formatMs(compactColdLoad)]
+  );
+}
+
+const header = ['Tracks', 'Written per save', 'Save', 'Load', 'First load'];
+const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+const formatRow = (row: string[]) => `| ${row.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+
+console.log(formatRow(header));
+console.log(`|${widths.map(width => '-'.repeat(width + 2)).join('|')}|`);
+rows.forEach(row => console.log(formatRow(row)));
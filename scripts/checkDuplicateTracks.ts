@@ -0,0 +1,120 @@
+/**
+ * Duplicate Tracks Check
+ *
+ * Runs groupDuplicateTracks against titles that must (and must not) be
+ * treated as the same song, and exits non-zero on the first wrong grouping.
+ *
+ * Run with: npx sucrase-node scripts/checkDuplicateTracks.ts
+ */
+
+import { groupDuplicateTracks } from '../utils/duplicateTracks';
+import type { SpotifyTrack } from '../types/spotify';
+
+interface Case {
+  description: string;
+  tracks: [name: string, artist: string, isrc?: string, durationMs?: number][];
+  sameSong: boolean;
+}
+
+const CASES: Case[] = [
+  {
+    description: 'remaster of the same song',
+    tracks: [['Here Comes the Sun', 'The Beatles'], ['Here Comes the Sun - Remastered 2009', 'The Beatles']],
+    sameSong: true,
+  },
+  {
+    description: 'bracketed guest credit',
+    tracks: [['Stay', 'The Kid LAROI'], ['Stay (with Justin Bieber)', 'The Kid LAROI']],
+    sameSong: true,
+  },
+  {
+    description: 'live version with a guest',
+    tracks: [['Song', 'Artist'], ['Song - Live with Orchestra', 'Artist']],
+    sameSong: false,
+  },
+  {
+    description: 'remastered live version',
+    tracks: [['Song', 'Artist'], ['Song (Live - Remastered)', 'Artist']],
+    sameSong: false,
+  },
+  {
+    description: 'distinct Korean titles',
+    tracks: [['다이너마이트', 'BTS'], ['봄날', 'BTS']],
+    sameSong: false,
+  },
+  {
+    description: 'distinct Japanese titles',
+    tracks: [['夜に駆ける', 'YOASOBI'], ['群青', 'YOASOBI'], ['アイドル', 'YOASOBI']],
+    sameSong: false,
+  },
+  {
+    description: 'Japanese titles differing only by dakuten',
+    tracks: [['カラス', 'Artist'], ['ガラス', 'Artist']],
+    sameSong: false,
+  },
+  {
+    description: 'distinct Cyrillic titles',
+    tracks: [['Кукла колдуна', 'Король и Шут'], ['Лесник', 'Король и Шут']],
+    sameSong: false,
+  },
+  {
+    description: 'same name, different ISRCs',
+    tracks: [['Intro', 'The xx', 'GBBKS0900123'], ['Intro', 'The xx', 'GBBKS1200456']],
+    sameSong: false,
+  },
+  {
+    description: 'same ISRC, different names',
+    tracks: [['Song', 'Artist', 'USABC1234567'], ['Song (Deluxe Edition)', 'Artist', 'USABC1234567']],
+    sameSong: true,
+  },
+  {
+    description: 'same name, one ISRC missing',
+    tracks: [['Song', 'Artist', 'USABC1234567'], ['Song', 'Artist', undefined, 181000]],
+    sameSong: true,
+  },
+  {
+    description: 'same name, no ISRCs, durations far apart',
+    tracks: [['Interlude', 'Artist', undefined, 45000], ['Interlude', 'Artist', undefined, 92000]],
+    sameSong: false,
+  },
+  {
+    description: 'titles with no letters or numbers',
+    tracks: [['???', 'Artist'], ['!!!', 'Artist']],
+    sameSong: false,
+  },
+];
+
+function createTrack(
+  [name, artist, isrc, durationMs = 180000]: Case['tracks'][number],
+  index: number
+): SpotifyTrack {
+  return {
+    id: `track${index}`,
+    name,
+    uri: `spotify:track:track${index}`,
+    artists: [{ id: 'artist', name: artist }],
+    album: { id: `album${index}`, name: 'Album', images: [] },
+    duration_ms: durationMs,
+    preview_url: null,
+    external_urls: { spotify: '' },
+    ...(isrc && { external_ids: { isrc } }),
+  };
+}
+
+let failures = 0;
+
+for (const { description, tracks, sameSong } of CASES) {
+  const groups = groupDuplicateTracks(tracks.map(createTrack));
+  const expectedGroups = sameSong ? 1 : tracks.length;
+
+  if (groups.length === expectedGroups) {
+    console.log(`ok   ${description}`);
+  } else {
+    failures++;
+    console.log(`FAIL ${description}: expected ${expectedGroups} groups, got ${JSON.stringify(groups)}`);
+  }
+}
+
+if (failures > 0) {
+  throw new Error(`${failures} duplicate grouping check(s) failed`);
+}
@@ -0,0 +1,333 @@
+/**
+ * Listening Session Monitor
+ *
+ * Tracks what was actually heard from a Flux set, instead of assuming that
+ * everything pushed to the Spotify queue was listened to.
+ *
+ * How it works:
+ * - A listening session is started for every set that gets queued
+ * - While sessions exist, Spotify's playback state is polled periodically
+ * - A track only counts as heard once it played past the heard threshold
+ * - Skipped or never-reached tracks are never marked, so they stay in the
+ *   unplayed pool of smart shuffle memory
+ *
+ * Heard Threshold (same rule scrobblers use):
+ * - Half of the track's duration, or 4 minutes, whichever comes first
+ *
+ * Sessions are persisted in AsyncStorage so they survive app restarts.
+ * Polling only happens while the JavaScript thread is alive; call
+ * resumeListeningMonitor() on app start to pick up persisted sessions.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SpotifyService } from '@/utils/spotify';
+import { markTracksAsPlayed } from '@/utils/smartShuffle';
+import { queryClient } from '@/utils/queryClient';
+import { spotifyQueryKeys } from '@/hooks/useSpotifyQueries';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STORAGE_KEY_SESSIONS = 'listening_sessions';
+
+const POLL_INTERVAL_MS = 10 * 1000; // 10 seconds
+const HEARD_THRESHOLD_RATIO = 0.5; // Half of the track
+const HEARD_THRESHOLD_MAX_MS = 4 * 60 * 1000; // ...or 4 minutes for long tracks
+
+/**
+ * A session ends when none of its tracks has been seen playing for this long
+ * (user moved on to something else, or abandoned the set)
+ */
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ListeningSession {
+  playlistId: string;
+  playlistName: string;
+  pendingTrackIds: string[];  // Set tracks that have not been heard yet
+  heardCount: number;         // Tracks heard so far in this session
+  startedAt: number;
+  lastActivityAt: number;     // Last time a track from this set was seen playing
+}
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let isPolling = false;
+
+// ============================================================================
+// State Management
+// ============================================================================
+
+/**
+ * Load all listening sessions from AsyncStorage
+ */
+async function loadSessions(): Promise<ListeningSession[]> {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEY_SESSIONS);
+    return json ? (JSON.parse(json) as ListeningSession[]) : [];
+  } catch (error) {
+    console.error('[ListeningMonitor] Error loading sessions:', error);
+    return [];
+  }
+}
+
+/**
+ * Save all listening sessions to AsyncStorage
+ */
+async function saveSessions(sessions: ListeningSession[]): Promise<void> {
+  try {
+    if (sessions.length === 0) {
+      await AsyncStorage.removeItem(STORAGE_KEY_SESSIONS);
+    } else {
+      await AsyncStorage.setItem(STORAGE_KEY_SESSIONS, JSON.stringify(sessions));
+    }
+  } catch (error) {
+    console.error('[ListeningMonitor] Error saving sessions:', error);
+  }
+}
+
+// Sessions are updated by the poller and by queueing at the same time,
+// so read-modify-write cycles are chained to avoid losing updates
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function withSessions<T>(
+  update: (sessions: ListeningSession[]) => { sessions: ListeningSession[]; result: T }
+): Promise<T> {
+  const run = writeChain.then(async () => {
+    const { sessions, result } = update(await loadSessions());
+    await saveSessions(sessions);
+    return result;
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+}
+
+// ============================================================================
+// Polling
+// ============================================================================
+
+/**
+ * Get the progress (ms) a track must reach before it counts as heard
+ */
+function getHeardThresholdMs(durationMs: number): number {
+  return Math.min(durationMs * HEARD_THRESHOLD_RATIO, HEARD_THRESHOLD_MAX_MS);
+}
+
+function startPolling(): void {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => {
+    pollListeningSessions();
+  }, POLL_INTERVAL_MS);
+
+  console.log('[ListeningMonitor] Polling started');
+}
+
+function stopPolling(): void {
+  if (!pollTimer) return;
+
+  clearInterval(pollTimer);
+  pollTimer = null;
+
+  console.log('[ListeningMonitor] Polling stopped');
+}
+
+/**
+ * Check what is currently playing and mark it as heard once it passed the threshold
+ *
+ * A track can belong to several sessions (same song in two playlists),
+ * in which case it is marked as heard in each of them.
+ */
+async function pollListeningSessions(): Promise<void> {
+  // Skip if the previous poll is still waiting on the network
+  if (isPolling) return;
+  isPolling = true;
+
+  try {
+    const sessions = await loadSessions();
+
+    if (sessions.length === 0) {
+      stopPolling();
+      return;
+    }
+
+    const playback = await SpotifyService.getPlaybackState();
+    const item = playback?.currently_playing_type === 'track' ? playback.item : null;
+
+    // Apply the poll to the sessions as they are now - they may have changed
+    // while the playback request was in flight
+    const { heardByPlaylist, remainingSessions } = await withSessions(current => {
+      const now = Date.now();
+      const heard = new Map<string, string[]>();
+
+      if (item?.id) {
+        const progressMs = playback?.progress_ms ?? 0;
+        const isHeard = progressMs >= getHeardThresholdMs(item.duration_ms);
+
+        for (const session of current) {
+          if (!session.pendingTrackIds.includes(item.id)) continue;
+
+          session.lastActivityAt = now;
+
+          if (isHeard) {
+            session.pendingTrackIds = session.pendingTrackIds.filter(id => id !== item.id);
+            session.heardCount += 1;
+            heard.set(session.playlistId, [item.id]);
+          }
+        }
+      }
+
+      // Drop finished and abandoned sessions
+      const activeSessions = current.filter(session => {
+        if (session.pendingTrackIds.length === 0) {
+          console.log(`[ListeningMonitor] Session for ${session.playlistName} finished (${session.heardCount} heard)`);
+          return false;
+        }
+        if (now - session.lastActivityAt > SESSION_IDLE_TIMEOUT_MS) {
+          console.log(
+            `[ListeningMonitor] Session for ${session.playlistName} ended after inactivity ` +
+            `(${session.heardCount} heard, ${session.pendingTrackIds.length} left unplayed)`
+          );
+          return false;
+        }
+        return true;
+      });
+
+      return {
+        sessions: activeSessions,
+        result: { heardByPlaylist: heard, remainingSessions: activeSessions.length },
+      };
+    });
+
+    if (remainingSessions === 0) {
+      stopPolling();
+    }
+
+    // Persist heard tracks into shuffle memory
+    for (const [playlistId, trackIds] of heardByPlaylist) {
+      const marked = await markTracksAsPlayed(playlistId, trackIds);
+      if (!marked) {
+        console.error(`[ListeningMonitor] Failed to mark heard track for playlist ${playlistId}`);
+      }
+    }
+
+    // Invalidate React Query cache so progress rings update
+    for (const playlistId of heardByPlaylist.keys()) {
+      try {
+        await queryClient.invalidateQueries({
+          queryKey: spotifyQueryKeys.playlistProgress(playlistId),
+          refetchType: 'active',
+        });
+        await queryClient.invalidateQueries({
+          queryKey: spotifyQueryKeys.globalStats,
+          refetchType: 'active',
+        });
+      } catch (invalidationError) {
+        console.error('[ListeningMonitor] Error invalidating queries:', invalidationError);
+      }
+    }
+  } catch (error) {
+    // Polling is best-effort - a failed poll simply means nothing gets marked this round
+    console.error('[ListeningMonitor] Error polling playback state:', error);
+  } finally {
+    isPolling = false;
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Start monitoring a set of tracks for a playlist
+ * Replaces any existing session for the same playlist, unless appending
+ *
+ * @param params.trackIds - Track IDs of the set, in play order
+ * @param params.append - Add to an existing session instead (a set queued behind another set of the same playlist)
+ */
+export async function startListeningSession(params: {
+  playlistId: string;
+  playlistName: string;
+  trackIds: string[];
+  append?: boolean;
+}): Promise<void> {
+  const { playlistId, playlistName, trackIds, append = false } = params;
+  const now = Date.now();
+
+  const session = await withSessions(sessions => {
+    const otherSessions = sessions.filter(s => s.playlistId !== playlistId);
+    const existing = append ? sessions.find(s => s.playlistId === playlistId) : undefined;
+
+    const updated: ListeningSession = {
+      playlistId,
+      playlistName,
+      pendingTrackIds: Array.from(new Set([...(existing?.pendingTrackIds ?? []), ...trackIds])),
+      heardCount: existing?.heardCount ?? 0,
+      startedAt: existing?.startedAt ?? now,
+      lastActivityAt: now,
+    };
+
+    return { sessions: [...otherSessions, updated], result: updated };
+  });
+
+  console.log(`[ListeningMonitor] Session started for ${playlistName} (${session.pendingTrackIds.length} tracks)`);
+
+  startPolling();
+}
+
+/**
+ * Stop waiting for tracks that will never play (e.g. they were never queued)
+ * They were never marked as heard, so they simply remain in the unplayed pool.
+ */
+export async function releaseSessionTracks(playlistId: string, trackIds: string[]): Promise<void> {
+  const idsToRelease = new Set(trackIds);
+
+  await withSessions(sessions => {
+    const session = sessions.find(s => s.playlistId === playlistId);
+    if (session) {
+      session.pendingTrackIds = session.pendingTrackIds.filter(id => !idsToRelease.has(id));
+    }
+
+    return { sessions: sessions.filter(s => s.pendingTrackIds.length > 0), result: undefined };
+  });
+}
+
+/**
+ * End the listening session for a playlist
+ * Tracks that were not heard yet stay unplayed.
+ */
+export async function stopListeningSession(playlistId: string): Promise<void> {
+  await withSessions(sessions => ({
+    sessions: sessions.filter(s => s.playlistId !== playlistId),
+    result: undefined,
+  }));
+}
+
+/**
+ * Track IDs Flux handed to Spotify that haven't been heard yet, across all sessions
+ */
+export async function getPendingSessionTrackIds(): Promise<string[]> {
+  const sessions = await loadSessions();
+  return sessions.flatMap(session => session.pendingTrackIds);
+}
+
+/**
+ * Resume polling for sessions persisted by a previous app run
+ * Call this on app startup
+ */
+export async function resumeListeningMonitor(): Promise<void> {
+  const sessions = await loadSessions();
+
+  if (sessions.length > 0) {
+    console.log(`[ListeningMonitor] Resuming ${sessions.length} listening session(s)`);
+    startPolling();
+    await pollListeningSessions();
+  }
+}
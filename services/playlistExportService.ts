@@ -0,0 +1,84 @@
+/**
+ * Playlist Export Service
+ *
+ * Alternative to the background queue for devices where queueing is flaky:
+ * the shuffled set is written to a "Flux: <playlist>" playlist in the user's
+ * Spotify library, in shuffled order, to be played from there.
+ *
+ * - Each source playlist has one export playlist, found by name and
+ *   overwritten on every export
+ * - Tracks are marked heard exactly like queued sets: a listening session
+ *   watches playback and only marks tracks that played past the heard
+ *   threshold. A set that isn't played within the session idle timeout
+ *   simply stays unheard.
+ */
+
+import { SpotifyService } from '@/utils/spotify';
+import { validateTrackUris } from '@/utils/smartShuffle';
+import { showPlaylistSavedNotification } from '@/utils/notificationService';
+import { startListeningSession } from '@/services/listeningSessionMonitor';
+import type { SpotifyPlaylist, SpotifyTrack } from '@/types/spotify';
+
+const EXPORT_NAME_PREFIX = 'Flux: ';
+
+/**
+ * Name of the playlist a set of this playlist is exported to
+ */
+export function getExportPlaylistName(playlistName: string): string {
+  return `${EXPORT_NAME_PREFIX}${playlistName}`;
+}
+
+/**
+ * Save a shuffled set as a playlist, keeping its order
+ *
+ * @returns The export playlist
+ * @throws InsufficientScopeError if the login predates the playlist-modify scopes
+ */
+export async function saveSetAsPlaylist(params: {
+  playlistId: string;
+  playlistName: string;
+  tracks: SpotifyTrack[];
+}): Promise<SpotifyPlaylist> {
+  const { playlistId, playlistName, tracks } = params;
+
+  const user = await SpotifyService.getCurrentUser();
+  if (!user) {
+    throw new Error('Could not load your Spotify profile');
+  }
+
+  // Local files and other non-track items can't be added to a playlist
+  const { validUris } = validateTrackUris(tracks.map(track => track.uri));
+  if (validUris.length === 0) {
+    throw new Error('None of the shuffled tracks can be added to a playlist');
+  }
+
+  const exportName = getExportPlaylistName(playlistName);
+  const description = `Shuffled by Flux from ${playlistName} on ${new Date().toLocaleDateString()}`;
+
+  // Only overwrite playlists the user owns - a followed playlist with the same name is left alone
+  const playlists = await SpotifyService.getUserPlaylists();
+  const existing = playlists.find(playlist => playlist.name === exportName && playlist.owner.id === user.id);
+
+  let exportPlaylist: SpotifyPlaylist;
+  if (existing) {
+    await SpotifyService.updatePlaylistDetails(existing.id, { description });
+    exportPlaylist = existing;
+  } else {
+    exportPlaylist = await SpotifyService.createPlaylist(user.id, exportName, description);
+  }
+
+  await SpotifyService.replacePlaylistTracks(exportPlaylist.id, validUris);
+  console.log(`[PlaylistExport] Saved ${validUris.length} tracks to "${exportName}"`);
+
+  // Heard tracks are picked up the same way as for queued sets
+  await startListeningSession({
+    playlistId,
+    playlistName,
+    trackIds: tracks.filter(track => validUris.includes(track.uri)).map(track => track.id),
+    append: true,
+  });
+
+  await showPlaylistSavedNotification(exportName, validUris.length);
+
+  return exportPlaylist;
+}
@@ -8,22 +8,76 @@
  *
  * This service allows the queueing process to continue even when
  * the app is in the background or minimized.
+ *
+ * Queue Controls (home screen and notification buttons):
+ * - Pause: stops after the current track, keeps currentIndex for a later resume
+ * - Resume: continues a paused queue from currentIndex
+ * - Cancel: stops and releases unqueued tracks, same path as errors
+ *
+ * Interrupted Queues:
+ * If the app is killed mid-queue, the persisted state stays active with nobody
+ * working on it. On the next launch the user can resume it from currentIndex
+ * (on the same or another device) or give up on the remaining tracks, which
+ * were never marked and stay unheard.
+ *
+ * Jobs:
+ * Every queue is recorded as a job (see utils/queueJobs). Sets shuffled while
+ * another queue runs are lined up as pending jobs and started, without
+ * interrupting playback, once the running job ends.
+ *
+ * Drip-Feed Mode:
+ * Instead of pushing the whole set up front, only a few upcoming tracks are
+ * kept in the Spotify queue. Playback is polled and the next track is added as
+ * each one starts; when the set runs out, more unplayed tracks are drawn from
+ * smart shuffle memory. The job ends once playback stops or moves on to
+ * another playlist or album, or another job is lined up.
+ *
+ * Fast Start:
+ * When the set was sent along with the play request, the service starts at
+ * the first track that didn't fit (playedTrackCount) and only queues the rest.
+ *
+ * Reconciliation:
+ * Once a whole set is queued, the Spotify queue is read back to check the set
+ * landed in order (see utils/queueReconciliation). Tracks that never made it
+ * are returned to the unheard pool and the report is kept in shuffle memory.
  */
 
 import * as TaskManager from 'expo-task-manager';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SpotifyService } from '@/utils/spotify';
+import { RateLimitedError } from '@/utils/spotifyErrors';
 import type { SpotifyTrack } from '@/types/spotify';
 import {
   showQueueStartNotification,
   updateQueueProgressNotification,
   showQueueCompleteNotification,
   showQueueErrorNotification,
+  showQueuePausedNotification,
+  showQueueCancelledNotification,
   dismissNotification,
+  addQueueActionListener,
+  type QueueNotificationAction,
 } from '@/utils/notificationService';
-import { markTracksAsPlayed, rollbackUnqueuedTracks, validateTrackUris } from '@/utils/smartShuffle';
+import {
+  rollbackUnqueuedTracks,
+  recordQueueReport,
+  validateTrackUris,
+  getSmartShuffledTracks,
+  type QueueMode,
+} from '@/utils/smartShuffle';
 import { queryClient } from '@/utils/queryClient';
-import { spotifyQueryKeys } from '@/hooks/useSpotifyQueries';
+import { spotifyQueryKeys, fetchShuffleSourceTracks } from '@/hooks/useSpotifyQueries';
+import { startListeningSession, releaseSessionTracks } from '@/services/listeningSessionMonitor';
+import {
+  createQueueJob,
+  updateQueueJob,
+  getQueueJob,
+  getNextPendingJob,
+  getQueueJobs,
+  type QueueJob,
+  type QueueJobStatus,
+} from '@/utils/queueJobs';
+import { reconcileQueue } from '@/utils/queueReconciliation';
 
 // ============================================================================
 // Constants
@@ -33,6 +87,10 @@ export const QUEUE_BACKGROUND_TASK = 'QUEUE_BACKGROUND_TASK';
 const STORAGE_KEY_PREFIX = 'queue_task_';
 const STORAGE_KEY_STATE = `${STORAGE_KEY_PREFIX}state`;
 
+const DRIP_POLL_INTERVAL_MS = 5 * 1000; // How often playback is checked while the buffer is full
+const DRIP_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // Same as a listening session going idle
+const RECONCILE_DELAY_MS = 2 * 1000; // Spotify's queue endpoint lags a little behind the last add
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -40,18 +98,66 @@ const STORAGE_KEY_STATE = `${STORAGE_KEY_PREFIX}state`;
 interface QueueTaskState {
   playlistId: string;
   playlistName: string;
+  jobId?: string; // Job record in utils/queueJobs
   tracks: string[]; // Track URIs (queued tracks only, excludes first track)
-  firstTrackUri: string; // First track that was played immediately
+  firstTrackUri?: string; // First track that was played immediately (absent for jobs started from the line)
   deviceId: string;
   currentIndex: number;
   totalTracks: number;
   isActive: boolean;
+  isPaused?: boolean; // Paused by the user - processing stopped, currentIndex kept
+  drip?: DripFeedState; // Present in drip-feed mode
   startedAt: number;
   stats?: {
     remaining: number;
+    addedTracks?: number;
   };
 }
 
+/**
+ * Drip-feed bookkeeping - `tracks` grows as more unplayed tracks are drawn
+ */
+interface DripFeedState {
+  bufferSize: number; // Tracks kept queued ahead of the one playing
+  playedIndex: number; // Tracks of `tracks` that have started playing
+  lastSeenAt: number; // Last time a track of this set was seen playing
+}
+
+/**
+ * Queue that was still running when the app was killed
+ */
+export interface InterruptedQueue {
+  playlistId: string;
+  playlistName: string;
+  deviceId: string;
+  progress: number;
+  total: number;
+  startedAt: number;
+}
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+/**
+ * Control requested by the user while processQueue is running
+ * Checked before each track, so it takes effect after the current request.
+ */
+let pendingControl: 'pause' | 'cancel' | null = null;
+
+/**
+ * processQueue runs in flight
+ * A counter, not a flag: a finishing job starts the next one before its own run returns.
+ */
+let activeRuns = 0;
+
+/**
+ * startNextJob calls in flight
+ * Checking that nothing runs and starting the next job are separate awaits, so
+ * calls are chained - otherwise two callers could both start the same job.
+ */
+let nextJobChain: Promise<unknown> = Promise.resolve();
+
 // ============================================================================
 // Task Definition (MUST be in global scope)
 // ============================================================================
@@ -88,6 +194,24 @@ TaskManager.defineTask(QUEUE_BACKGROUND_TASK, async ({ data, error }) => {
   }
 });
 
+/**
+ * Handle Pause / Resume / Cancel buttons on the queue notification
+ * Registered in global scope so buttons work without the home screen mounted
+ */
+addQueueActionListener((action: QueueNotificationAction) => {
+  console.log(`[QueueBackgroundService] Notification action: ${action}`);
+
+  const handlers: Record<QueueNotificationAction, () => Promise<unknown>> = {
+    pause: pauseBackgroundQueue,
+    resume: resumeBackgroundQueue,
+    cancel: cancelBackgroundQueue,
+  };
+
+  handlers[action]().catch(error => {
+    console.error(`[QueueBackgroundService] Error handling ${action} action:`, error);
+  });
+});
+
 // ============================================================================
 // State Management
 // ============================================================================
@@ -130,6 +254,14 @@ async function clearQueueState(): Promise<void> {
   }
 }
 
+/**
+ * Extract the track ID from a Spotify track URI (spotify:track:{id})
+ */
+function getTrackIdFromUri(uri: string): string {
+  const parts = uri.split(':');
+  return parts[parts.length - 1];
+}
+
 // ============================================================================
 // Queue Processing
 // ============================================================================
@@ -145,19 +277,56 @@ async function clearQueueState(): Promise<void> {
  * Device Health Checks:
  * - Check device health every 25 tracks
  * - Ensures device hasn't disconnected during long queue operations
+ *
+ * Pause / cancel requests are applied between tracks.
  */
 async function processQueue(state: QueueTaskState): Promise<void> {
-  const { tracks, deviceId, currentIndex, totalTracks, playlistName } = state;
+  activeRuns++;
+
+  try {
+    await processQueueTracks(state);
+  } finally {
+    activeRuns--;
+  }
+}
+
+async function processQueueTracks(state: QueueTaskState): Promise<void> {
+  const { tracks, deviceId, currentIndex, playlistName } = state;
 
   let lastUpdateTime = Date.now();
   let lastUpdateIndex = currentIndex;
 
-  // Process remaining tracks
-  for (let i = currentIndex; i < tracks.length; i++) {
-    const trackUri = tracks[i];
+  // Process remaining tracks - a drip-feed set has no fixed end
+  for (let i = currentIndex; i < tracks.length || state.drip; i++) {
+    // Apply pause / cancel requested since the last track
+    if (pendingControl) {
+      const control = pendingControl;
+      pendingControl = null;
+
+      if (control === 'pause') {
+        await handleTaskPause(state);
+      } else {
+        await handleTaskCancel(state);
+      }
+      return;
+    }
 
     try {
-      // ✅ Safety Check: Verify state still exists (not cleared by stale cleanup)
+      // Drip-feed: wait until playback has room for another track
+      if (state.drip) {
+        const slot = await waitForDripSlot(state, i);
+
+        if (slot === 'ended') {
+          await handleTaskComplete(state);
+          return;
+        }
+        if (slot === 'control') {
+          i--; // Apply the pause / cancel at the top of the loop
+          continue;
+        }
+      }
+
+      // ✅ Safety Check: Verify state still exists (not cleared by a rollback)
       // Check every 25 tracks to avoid excessive AsyncStorage reads
       if (i > 0 && i % 25 === 0) {
         const currentState = await loadQueueState();
@@ -170,14 +339,14 @@ async function processQueue(state: QueueTaskState): Promise<void> {
         const deviceHealthy = await SpotifyService.verifyDeviceHealth(deviceId);
 
         if (!deviceHealthy) {
-          const errorMsg = `Device disconnected or unavailable during queueing (at track ${i + 1}/${totalTracks})`;
+          const errorMsg = `Device disconnected or unavailable during queueing (at track ${i + 1}/${state.totalTracks})`;
           console.error(`[QueueBackgroundService] ${errorMsg}`);
           await handleTaskError(state, errorMsg);
           return;
         }
       }
       // Queue the track with retry logic
-      await queueTrackWithRetry(trackUri, deviceId);
+      await queueTrackWithRetry(tracks[i], deviceId, state);
 
       // Update state
       state.currentIndex = i + 1;
@@ -185,29 +354,43 @@ async function processQueue(state: QueueTaskState): Promise<void> {
 
       const tracksSinceUpdate = (i + 1) - lastUpdateIndex;
       const timeSinceUpdate = Date.now() - lastUpdateTime;
-      const isComplete = (i + 1) === totalTracks;
+      const isComplete = (i + 1) === state.totalTracks;
 
       // Smart update logic: Update every 3 tracks OR every 2 seconds OR on completion
       const shouldUpdate = tracksSinceUpdate >= 3 || timeSinceUpdate >= 2000 || isComplete;
 
       if (shouldUpdate) {
-        await updateQueueProgressNotification(i + 1, totalTracks, playlistName);
+        await updateQueueProgressNotification(
+          i + 1,
+          state.totalTracks,
+          playlistName,
+          state.drip ? `Drip-feed • ${state.drip.bufferSize} tracks ahead of playback` : undefined
+        );
         lastUpdateTime = Date.now();
         lastUpdateIndex = i + 1;
       }
 
       // Respect API rate limits - 150ms between requests
-      if (i < tracks.length - 1) {
+      if (i < tracks.length - 1 || state.drip) {
         await new Promise(resolve => setTimeout(resolve, 150));
       }
     } catch (error) {
       console.error(`[QueueBackgroundService] Error queueing track ${i + 1}:`, error);
 
-      // If we hit an unrecoverable error, stop and notify
-      if (error instanceof Error && !error.message.includes('429')) {
-        await handleTaskError(state, `Failed to queue track ${i + 1}: ${error.message}`);
-        return;
+      // Rate limits are not failures: the track was NOT queued, so wait for the
+      // shared rate limit window and retry the same track instead of skipping it
+      if (error instanceof RateLimitedError) {
+        await waitOutRateLimit(state);
+        i--;
+        continue;
       }
+
+      // If we hit an unrecoverable error, stop and notify
+      await handleTaskError(
+        state,
+        `Failed to queue track ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return;
     }
   }
 
@@ -216,25 +399,136 @@ async function processQueue(state: QueueTaskState): Promise<void> {
 }
 
 /**
- * Queue a single track with exponential backoff retry logic
+ * Wait until track `index` of a drip-feed set may be queued
+ *
+ * Playback is polled until fewer than bufferSize set tracks wait ahead of the
+ * one playing. When the set is used up, more unplayed tracks are drawn.
+ *
+ * @returns 'ready' to queue the track, 'control' when a pause / cancel came in,
+ *          'ended' when playback stopped or moved on, or another job is lined up
+ */
+async function waitForDripSlot(state: QueueTaskState, index: number): Promise<'ready' | 'control' | 'ended'> {
+  const drip = state.drip!;
+
+  for (;;) {
+    if (pendingControl) return 'control';
+
+    if (index - drip.playedIndex < drip.bufferSize) {
+      if (index < state.tracks.length) return 'ready';
+
+      // Set used up - hand over to a lined-up job, or draw more unplayed tracks
+      if (await getNextPendingJob()) return 'ended';
+      if ((await topUpDripTracks(state)) > 0) return 'ready';
+    }
+
+    await new Promise(resolve => setTimeout(resolve, DRIP_POLL_INTERVAL_MS));
+
+    if (!(await refreshDripPosition(state))) {
+      console.log('[QueueBackgroundService] Drip-feed: playback stopped or switched context, ending set');
+      return 'ended';
+    }
+
+    // Something else without a context (e.g. the user's own queued songs) may just be a detour
+    if (Date.now() - drip.lastSeenAt > DRIP_IDLE_TIMEOUT_MS) {
+      console.log('[QueueBackgroundService] Drip-feed: playback moved on, ending set');
+      return 'ended';
+    }
+  }
+}
+
+/**
+ * Update how far playback got into a drip-feed set
+ *
+ * @returns false once playback stopped or switched to a playlist, album or
+ *          other context - Flux plays its sets without one
+ */
+async function refreshDripPosition(state: QueueTaskState): Promise<boolean> {
+  const drip = state.drip!;
+
+  try {
+    const playback = await SpotifyService.getPlaybackState();
+    const currentUri = playback?.item?.uri;
+    if (!currentUri) return false;
+
+    // Tracks before the last known position have already played
+    const setIndex = state.tracks.indexOf(currentUri, Math.max(0, drip.playedIndex - 1));
+
+    if (setIndex !== -1) {
+      drip.playedIndex = setIndex + 1;
+      drip.lastSeenAt = Date.now();
+      await saveQueueState(state);
+    } else if (currentUri === state.firstTrackUri) {
+      drip.lastSeenAt = Date.now();
+    } else if (playback?.context) {
+      return false;
+    }
+  } catch (error) {
+    // Missing one poll only delays the next top-up
+    console.error('[QueueBackgroundService] Error reading playback for drip-feed:', error);
+  }
+
+  return true;
+}
+
+/**
+ * Draw more unplayed tracks for a drip-feed set
+ * Tracks still playing or waiting in the Spotify queue are excluded, so nothing is queued twice.
+ *
+ * @returns Number of tracks added to the set
+ */
+async function topUpDripTracks(state: QueueTaskState): Promise<number> {
+  const drip = state.drip!;
+
+  const sourceTracks = await fetchShuffleSourceTracks(queryClient, state.playlistId);
+  const likedTracks = queryClient.getQueryData<SpotifyTrack[]>(spotifyQueryKeys.savedTracks);
+  const inFlightUris = state.tracks.slice(Math.max(0, drip.playedIndex - 1));
+  if (state.firstTrackUri) inFlightUris.push(state.firstTrackUri);
+
+  const { tracks: drawn } = await getSmartShuffledTracks(state.playlistId, sourceTracks, {
+    likedTrackIds: likedTracks?.map(track => track.id),
+    setSize: { type: 'fixed', trackCount: drip.bufferSize },
+    excludeTrackIds: inFlightUris.map(getTrackIdFromUri),
+  });
+
+  const trackUris = validateQueueUris(drawn.map(track => track.uri));
+  if (trackUris.length === 0) return 0;
+
+  state.tracks.push(...trackUris);
+  state.totalTracks = state.tracks.length;
+  await saveQueueState(state);
+
+  // Heard-tracking for the new tracks
+  await startListeningSession({
+    playlistId: state.playlistId,
+    playlistName: state.playlistName,
+    trackIds: trackUris.map(getTrackIdFromUri),
+    append: true,
+  });
+
+  console.log(`[QueueBackgroundService] Drip-feed: drew ${trackUris.length} more tracks`);
+  return trackUris.length;
+}
+
+/**
+ * Queue a single track, cooperating with the shared rate limit scheduler
+ *
+ * Short Retry-After windows are already waited out inside the Spotify service.
+ * A long window is surfaced here: the queue pauses (with a notification) until
+ * Spotify allows requests again, then retries the same track.
  */
 async function queueTrackWithRetry(
   trackUri: string,
   deviceId: string,
+  state: QueueTaskState,
   retryCount = 0,
   maxRetries = 3
 ): Promise<void> {
   try {
     await SpotifyService.addToQueue(trackUri, deviceId);
-  } catch (error: any) {
-    // Handle rate limiting with exponential backoff
-    if (error?.status === 429 || error?.message?.includes('429')) {
-      if (retryCount < maxRetries) {
-        const delay = Math.pow(2, retryCount) * 1000; // 1s, 2s, 4s
-        console.log(`[QueueBackgroundService] Rate limited, retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return queueTrackWithRetry(trackUri, deviceId, retryCount + 1, maxRetries);
-      }
+  } catch (error) {
+    if (error instanceof RateLimitedError && retryCount < maxRetries) {
+      await waitOutRateLimit(state);
+      return queueTrackWithRetry(trackUri, deviceId, state, retryCount + 1, maxRetries);
     }
 
     // Re-throw if not recoverable
@@ -242,6 +536,25 @@ async function queueTrackWithRetry(
   }
 }
 
+/**
+ * Wait until the shared rate limit window has passed, telling the user why the queue paused
+ */
+async function waitOutRateLimit(state: QueueTaskState): Promise<void> {
+  const { resumeAt } = SpotifyService.getRateLimitState();
+  if (resumeAt) {
+    const waitSeconds = Math.ceil((resumeAt - Date.now()) / 1000);
+    console.log(`[QueueBackgroundService] Rate limited, queue paused for ${waitSeconds}s`);
+    await updateQueueProgressNotification(
+      state.currentIndex,
+      state.totalTracks,
+      state.playlistName,
+      `Spotify asked us to slow down, resuming in ${waitSeconds}s`
+    );
+  }
+
+  await SpotifyService.waitForRateLimit();
+}
+
 // ============================================================================
 // Task Lifecycle
 // ============================================================================
@@ -250,70 +563,36 @@ async function queueTrackWithRetry(
  * Handle task completion
  *
  * Critical Flow:
- * 1. Mark tracks as played in AsyncStorage (data persistence)
- * 2. Invalidate React Query cache (UI update trigger)
+ * 1. Invalidate React Query cache (UI update trigger)
+ * 2. Reconcile the set with the Spotify queue
  * 3. Show completion notification
  * 4. Clear queue state
+ * 5. Start the next job in line
  *
- * This order ensures data integrity and proper UI updates.
+ * Tracks are NOT marked as played here. Queued is not the same as heard -
+ * the listening session started in startBackgroundQueue marks each track
+ * once it actually played past the heard threshold.
  */
 async function handleTaskComplete(state: QueueTaskState): Promise<void> {
-  try {
-    // ✅ STEP 1: Mark all tracks as played in shuffle memory (AsyncStorage)
-    // This includes BOTH the first track (played immediately) AND all queued tracks
+  // ✅ STEP 1: Invalidate React Query cache to remove the loading spinner
+  console.log('[QueueBackgroundService] Invalidating React Query cache to trigger UI updates');
 
-    // Extract track IDs from queued tracks
-    const queuedTrackIds = state.tracks.map(uri => {
-      const parts = uri.split(':');
-      return parts[parts.length - 1];
+  try {
+    // Invalidate playlist-specific progress query
+    await queryClient.invalidateQueries({
+      queryKey: spotifyQueryKeys.playlistProgress(state.playlistId),
+      refetchType: 'active', // Only refetch if component is mounted
     });
 
-    // Extract track ID from first track
-    const firstTrackParts = state.firstTrackUri.split(':');
-    const firstTrackId = firstTrackParts[firstTrackParts.length - 1];
-
-    // Combine: first track + all queued tracks
-    const allTrackIds = [firstTrackId, ...queuedTrackIds];
-
-    console.log(`[QueueBackgroundService] Marking ${allTrackIds.length} tracks as played for playlist ${state.playlistId}`);
-    const marked = await markTracksAsPlayed(state.playlistId, allTrackIds);
-
-    if (!marked) {
-      console.error('[QueueBackgroundService] Failed to mark tracks as played - data integrity issue!');
-      // Continue with completion despite this error
-    }
-
-    // ✅ STEP 2: Invalidate React Query cache AFTER AsyncStorage updates
-    // This ensures UI refetches fresh data with updated play counts
-    console.log('[QueueBackgroundService] Invalidating React Query cache to trigger UI updates');
+    console.log('[QueueBackgroundService] ✅ Cache invalidation complete - UI will update');
+  } catch (invalidationError) {
+    console.error('[QueueBackgroundService] Error invalidating queries:', invalidationError);
+    // Continue despite invalidation error
+  }
 
-    try {
-      // Invalidate playlist-specific progress query
-      await queryClient.invalidateQueries({
-        queryKey: spotifyQueryKeys.playlistProgress(state.playlistId),
-        refetchType: 'active', // Only refetch if component is mounted
-      });
-
-      // Invalidate global stats query (for profile page)
-      await queryClient.invalidateQueries({
-        queryKey: spotifyQueryKeys.globalStats,
-        refetchType: 'active', // Only refetch if component is mounted
-      });
-
-      // Invalidate active queue query to remove loading spinner immediately
-      await queryClient.invalidateQueries({
-        queryKey: spotifyQueryKeys.activeQueuePlaylistId,
-        refetchType: 'active',
-      });
-
-      console.log('[QueueBackgroundService] ✅ Cache invalidation complete - UI will update');
-    } catch (invalidationError) {
-      console.error('[QueueBackgroundService] Error invalidating queries:', invalidationError);
-      // Continue despite invalidation error - data is already saved
-    }
-  } catch (error) {
-    console.error('[QueueBackgroundService] Error in task completion:', error);
-    // Continue with completion despite errors
+  // ✅ STEP 2: Check the set landed in the Spotify queue (a drip-feed queue is never queued in one go)
+  if (!state.drip) {
+    await reconcileQueuedTracks(state);
   }
 
   // ✅ STEP 3: Show completion notification
@@ -325,78 +604,348 @@ async function handleTaskComplete(state: QueueTaskState): Promise<void> {
 
   // ✅ STEP 4: Clear queue state
   await clearQueueState();
+  await finishJob(state, 'done');
+
+  // Remove loading spinner and queue controls now that the state is gone
+  await invalidateQueueStatus();
 
   console.log('[QueueBackgroundService] ✅ Queue processing complete');
+
+  // ✅ STEP 5: Start the next job in line
+  await startNextJob(state.deviceId);
 }
 
 /**
- * Handle task error with rollback support
+ * Handle task error
  *
  * Error Recovery Flow:
- * 1. Rollback unqueued tracks from shuffle memory (data consistency)
- * 2. Invalidate queries to ensure UI shows accurate state
- * 3. Show error notification to user
- * 4. Clear queue state
+ * 1. Release unqueued tracks from the listening session (they were never
+ *    marked as heard, so they simply stay in the unheard pool)
+ * 2. Show error notification to user
+ * 3. Clear queue state and record the failure on the job
+ * 4. Start the next job in line
  *
  * This ensures the app remains in a consistent state even after errors.
  */
 async function handleTaskError(state: QueueTaskState | null, errorMessage: string): Promise<void> {
-  console.error('[QueueBackgroundService] Task failed:', errorMessage);
+  await failTask(state, errorMessage);
 
-  // ✅ STEP 1: Rollback unqueued tracks from shuffle memory
-  if (state && state.currentIndex < state.tracks.length) {
-    try {
-      // Calculate which tracks were NOT queued
-      const unqueuedTracks = state.tracks.slice(state.currentIndex);
-      const unqueuedTrackIds = unqueuedTracks.map(uri => {
-        const parts = uri.split(':');
-        return parts[parts.length - 1]; // Extract track ID from URI
-      });
-
-      console.log(`[QueueBackgroundService] Rolling back ${unqueuedTrackIds.length} unqueued tracks`);
-      const rolledBack = await rollbackUnqueuedTracks(state.playlistId, unqueuedTrackIds);
-
-      if (!rolledBack) {
-        console.error('[QueueBackgroundService] Failed to rollback tracks - data integrity issue!');
-      }
+  // ✅ STEP 4: Start the next job in line
+  await startNextJob(state?.deviceId);
+}
 
-      // ✅ STEP 2: Invalidate queries after rollback to show accurate state
-      try {
-        await queryClient.invalidateQueries({
-          queryKey: spotifyQueryKeys.playlistProgress(state.playlistId),
-          refetchType: 'active',
-        });
-        await queryClient.invalidateQueries({
-          queryKey: spotifyQueryKeys.globalStats,
-          refetchType: 'active',
-        });
-        // Remove loading spinner immediately on error
-        await queryClient.invalidateQueries({
-          queryKey: spotifyQueryKeys.activeQueuePlaylistId,
-          refetchType: 'active',
-        });
-        console.log('[QueueBackgroundService] Cache invalidated after error recovery');
-      } catch (invalidationError) {
-        console.error('[QueueBackgroundService] Error invalidating queries after rollback:', invalidationError);
-      }
-    } catch (error) {
-      console.error('[QueueBackgroundService] Error during rollback:', error);
-    }
+/**
+ * Steps 1-3 of handleTaskError, without starting the next job
+ */
+async function failTask(state: QueueTaskState | null, errorMessage: string): Promise<void> {
+  console.error('[QueueBackgroundService] Task failed:', errorMessage);
+
+  // ✅ STEP 1: Stop waiting for unqueued tracks
+  if (state) {
+    await releaseRemainingTracks(state);
   }
 
-  // ✅ STEP 3: Show error notification
+  // ✅ STEP 2: Show error notification
   await showQueueErrorNotification(errorMessage);
 
-  // ✅ STEP 4: Clear state
+  // ✅ STEP 3: Clear state
   await clearQueueState();
+  if (state) {
+    await finishJob(state, 'failed', errorMessage);
+  }
+
+  // Remove loading spinner / queue controls immediately
+  await invalidateQueueStatus();
 
   console.log('[QueueBackgroundService] Error handling complete');
 }
 
+/**
+ * Handle a user cancel - same recovery as errors, with a friendlier notification
+ */
+async function handleTaskCancel(state: QueueTaskState): Promise<void> {
+  console.log(`[QueueBackgroundService] Queue cancelled at ${state.currentIndex}/${state.totalTracks}`);
+
+  await releaseRemainingTracks(state);
+  await showQueueCancelledNotification(getQueuedCount(state), state.playlistName);
+  await clearQueueState();
+  await finishJob(state, 'cancelled');
+  await invalidateQueueStatus();
+  await startNextJob(state.deviceId);
+}
+
+/**
+ * Handle a user pause - keep the state (and currentIndex) for a later resume
+ */
+async function handleTaskPause(state: QueueTaskState): Promise<void> {
+  console.log(`[QueueBackgroundService] Queue paused at ${state.currentIndex}/${state.totalTracks}`);
+
+  state.isPaused = true;
+  await saveQueueState(state);
+  if (state.jobId) {
+    await updateQueueJob(state.jobId, { status: 'paused', queuedTracks: getQueuedCount(state) });
+  }
+  await showQueuePausedNotification(state.currentIndex, state.totalTracks, state.playlistName);
+  await invalidateQueueStatus();
+}
+
+/**
+ * Compare a fully queued set with the Spotify queue and report drift to shuffle memory
+ * Missing tracks will never play from this set, so they go back to the unheard pool.
+ */
+async function reconcileQueuedTracks(state: QueueTaskState): Promise<void> {
+  try {
+    await new Promise(resolve => setTimeout(resolve, RECONCILE_DELAY_MS));
+
+    const setUris = state.firstTrackUri ? [state.firstTrackUri, ...state.tracks] : state.tracks;
+    const result = await reconcileQueue(setUris);
+    if (!result) {
+      console.warn('[QueueBackgroundService] Could not read the Spotify queue, skipping reconciliation');
+      return;
+    }
+
+    const { report, missingUris } = result;
+    console.log(
+      `[QueueBackgroundService] Reconciled queue: ${report.landed}/${report.checked} landed, ` +
+      `${report.missing} missing, ${report.outOfOrder} out of order, ${report.foreign} foreign`
+    );
+
+    if (missingUris.length > 0) {
+      const missingTrackIds = missingUris.map(getTrackIdFromUri);
+      await rollbackUnqueuedTracks(state.playlistId, missingTrackIds);
+      await releaseSessionTracks(state.playlistId, missingTrackIds);
+    }
+
+    await recordQueueReport(state.playlistId, report);
+
+    await queryClient.invalidateQueries({
+      queryKey: spotifyQueryKeys.shuffleMemory(state.playlistId),
+      refetchType: 'active',
+    });
+  } catch (error) {
+    console.error('[QueueBackgroundService] Error reconciling queue:', error);
+  }
+}
+
+/**
+ * Stop waiting for tracks that were not queued yet
+ *
+ * Tracks are only marked once heard, so unqueued tracks are still unheard in
+ * shuffle memory - only the listening session has to let go of them. Used by
+ * errors, cancels and interrupted queues the user chose not to resume.
+ */
+async function releaseRemainingTracks(state: QueueTaskState): Promise<void> {
+  if (state.currentIndex >= state.tracks.length) return;
+
+  try {
+    const unqueuedTrackIds = state.tracks.slice(state.currentIndex).map(getTrackIdFromUri);
+
+    console.log(`[QueueBackgroundService] Releasing ${unqueuedTrackIds.length} unqueued tracks`);
+    await releaseSessionTracks(state.playlistId, unqueuedTrackIds);
+  } catch (error) {
+    console.error('[QueueBackgroundService] Error releasing unqueued tracks:', error);
+  }
+}
+
+/**
+ * Start processing a paused or interrupted queue again from currentIndex
+ * startedAt is reset so the run is timed from now, not from the original start.
+ */
+async function restartProcessing(state: QueueTaskState): Promise<void> {
+  state.isPaused = false;
+  state.startedAt = Date.now();
+  await saveQueueState(state);
+  if (state.jobId) {
+    await updateQueueJob(state.jobId, { status: 'running' });
+  }
+  await updateQueueProgressNotification(state.currentIndex, state.totalTracks, state.playlistName);
+
+  // Started before the status refetch, so the run already counts in activeRuns and
+  // the queue doesn't read as interrupted
+  processQueue(state).catch(error => {
+    console.error('[QueueBackgroundService] Unhandled error in processQueue:', error);
+    handleTaskError(state, error instanceof Error ? error.message : 'Unknown error occurred');
+  });
+  await invalidateQueueStatus();
+}
+
+/**
+ * Tracks of the set that reached Spotify, including a first track that was played directly
+ */
+function getQueuedCount(state: QueueTaskState): number {
+  return state.currentIndex + (state.firstTrackUri ? 1 : 0);
+}
+
+/**
+ * Record how the job behind a queue ended
+ */
+async function finishJob(state: QueueTaskState, status: QueueJobStatus, error?: string): Promise<void> {
+  if (!state.jobId) return;
+
+  await updateQueueJob(state.jobId, {
+    status,
+    error,
+    queuedTracks: getQueuedCount(state),
+    finishedAt: Date.now(),
+  });
+}
+
+/**
+ * Start the pending job that has waited the longest, if nothing else is running
+ *
+ * Pending jobs only add to the Spotify queue - playback of the previous set
+ * carries on, and the new set follows it.
+ *
+ * @param preferredDeviceId - Device of the job that just ended; falls back to any available device
+ */
+function startNextJob(preferredDeviceId?: string): Promise<void> {
+  const run = nextJobChain.then(() => startPendingJob(preferredDeviceId));
+  nextJobChain = run.catch(() => undefined);
+  return run;
+}
+
+async function startPendingJob(preferredDeviceId?: string): Promise<void> {
+  for (;;) {
+    if (await isQueueActive()) return;
+
+    const job = await getNextPendingJob();
+    if (!job) return;
+
+    if (await startJob(job, preferredDeviceId)) return;
+  }
+}
+
+/**
+ * Start a pending job
+ *
+ * @returns false if no device was available - the job failed and the next one may be tried
+ */
+async function startJob(job: QueueJob, preferredDeviceId?: string): Promise<boolean> {
+  console.log(`[QueueBackgroundService] Starting next job: ${job.playlistName}`);
+
+  const trackUris = job.trackUris ?? [];
+  const state: QueueTaskState = {
+    jobId: job.id,
+    playlistId: job.playlistId,
+    playlistName: job.playlistName,
+    tracks: trackUris,
+    deviceId: preferredDeviceId ?? '',
+    currentIndex: 0,
+    totalTracks: trackUris.length,
+    isActive: true,
+    startedAt: Date.now(),
+    stats: job.stats,
+  };
+
+  const deviceId = await findQueueDevice(preferredDeviceId);
+  if (!deviceId) {
+    // Rolls the whole set back - startPendingJob moves on to the job after this one
+    await failTask(state, `No Spotify device available to queue ${job.playlistName}.`);
+    return false;
+  }
+  state.deviceId = deviceId;
+
+  await saveQueueState(state);
+  await updateQueueJob(job.id, { status: 'running', startedAt: state.startedAt, trackUris: undefined });
+
+  // Appended to any session of the same playlist - the previous set may still be playing
+  await startListeningSession({
+    playlistId: job.playlistId,
+    playlistName: job.playlistName,
+    trackIds: trackUris.map(getTrackIdFromUri),
+    append: true,
+  });
+
+  await showQueueStartNotification(job.playlistName, trackUris.length, job.stats?.addedTracks, job.stats?.setSizeLabel);
+
+  // Started before the status refetch, like in restartProcessing
+  processQueue(state).catch(error => {
+    console.error('[QueueBackgroundService] Unhandled error in processQueue:', error);
+    handleTaskError(state, error instanceof Error ? error.message : 'Unknown error occurred');
+  });
+  await invalidateQueueStatus();
+  return true;
+}
+
+/**
+ * Pick the device a job should be queued on
+ * The preferred device if it's still there, otherwise the active (or first) one.
+ */
+async function findQueueDevice(preferredDeviceId?: string): Promise<string | null> {
+  if (preferredDeviceId && (await SpotifyService.verifyDeviceHealth(preferredDeviceId))) {
+    return preferredDeviceId;
+  }
+
+  try {
+    const devices = await SpotifyService.getDevices();
+    const device = devices?.find(d => d.is_active) ?? devices?.[0];
+    return device?.id ?? null;
+  } catch (error) {
+    // Offline or signed out counts as no device - the job fails with the usual rollback
+    console.error('[QueueBackgroundService] Error loading devices:', error);
+    return null;
+  }
+}
+
+/**
+ * Refresh the queries that show whether (and how) a queue is running
+ */
+async function invalidateQueueStatus(): Promise<void> {
+  try {
+    await queryClient.invalidateQueries({
+      queryKey: spotifyQueryKeys.activeQueuePlaylistId,
+      refetchType: 'active',
+    });
+    await queryClient.invalidateQueries({
+      queryKey: spotifyQueryKeys.queueStatus,
+      refetchType: 'active',
+    });
+    await queryClient.invalidateQueries({
+      queryKey: spotifyQueryKeys.queueJobs,
+      refetchType: 'active',
+    });
+  } catch (invalidationError) {
+    console.error('[QueueBackgroundService] Error invalidating queue status:', invalidationError);
+  }
+}
+
 // ============================================================================
 // Public API
 // ============================================================================
 
+/**
+ * Validate track URIs before queueing
+ *
+ * @returns The valid URIs
+ * @throws If more than 10% of the URIs are invalid
+ */
+function validateQueueUris(trackUris: string[]): string[] {
+  // ✅ CRITICAL: Validate all track URIs before queueing
+  const validation = validateTrackUris(trackUris);
+
+  if (validation.invalidCount > 0) {
+    console.error(`[QueueBackgroundService] ❌ Found ${validation.invalidCount} invalid URIs`);
+    validation.invalidUris.forEach((uri, idx) => {
+      console.error(`  ${idx + 1}. Invalid URI: ${uri}`);
+    });
+
+    // If more than 10% of URIs are invalid, abort
+    const invalidPercentage = (validation.invalidCount / trackUris.length) * 100;
+    if (invalidPercentage > 10) {
+      throw new Error(
+        `Too many invalid URIs: ${validation.invalidCount}/${trackUris.length} (${invalidPercentage.toFixed(1)}%). Aborting queue operation.`
+      );
+    }
+
+    console.warn(
+      `[QueueBackgroundService] Proceeding with ${validation.validUris.length} valid URIs, skipping ${validation.invalidCount} invalid ones`
+    );
+  }
+
+  // Use only validated URIs for queueing
+  return validation.validUris;
+}
+
 /**
  * Start background queueing process
  * This initiates the background task with foreground service notification
@@ -407,8 +956,12 @@ export async function startBackgroundQueue(params: {
   tracks: SpotifyTrack[];
   deviceId: string;
   firstTrackUri: string;
+  playedTrackCount?: number; // Leading tracks already handed to Spotify by the play request (fast start), default 1
+  queueMode?: QueueMode;
   stats?: {
     remaining: number;
+    addedTracks?: number;
+    setSizeLabel?: string;
   };
 }): Promise<boolean> {
   try {
@@ -420,56 +973,50 @@ export async function startBackgroundQueue(params: {
       return false;
     }
 
-    const { playlistId, playlistName, tracks, deviceId, firstTrackUri, stats } = params;
+    const { playlistId, playlistName, tracks, deviceId, firstTrackUri, playedTrackCount = 1, queueMode, stats } = params;
 
     // Skip the first track (already played)
-    const tracksToQueue = tracks.slice(1);
-    const trackUris = tracksToQueue.map(t => t.uri);
-
-    // ✅ CRITICAL: Validate all track URIs before queueing
-    const validation = validateTrackUris(trackUris);
-
-    if (validation.invalidCount > 0) {
-      console.error(`[QueueBackgroundService] ❌ Found ${validation.invalidCount} invalid URIs`);
-      validation.invalidUris.forEach((uri, idx) => {
-        console.error(`  ${idx + 1}. Invalid URI: ${uri}`);
-      });
-
-      // If more than 10% of URIs are invalid, abort
-      const invalidPercentage = (validation.invalidCount / trackUris.length) * 100;
-      if (invalidPercentage > 10) {
-        throw new Error(
-          `Too many invalid URIs: ${validation.invalidCount}/${trackUris.length} (${invalidPercentage.toFixed(1)}%). Aborting queue operation.`
-        );
-      }
-
-      console.warn(
-        `[QueueBackgroundService] Proceeding with ${validation.validUris.length} valid URIs, skipping ${validation.invalidCount} invalid ones`
-      );
-    }
+    const validatedTrackUris = validateQueueUris(tracks.slice(1).map(t => t.uri));
 
-    // Use only validated URIs for queueing
-    const validatedTrackUris = validation.validUris;
+    const job = await createQueueJob({
+      playlistId,
+      playlistName,
+      status: 'running',
+      totalTracks: tracks.length,
+      stats,
+    });
 
     // Create initial state
     const state: QueueTaskState = {
+      jobId: job.id,
       playlistId,
       playlistName,
       tracks: validatedTrackUris, // ✅ Use validated URIs instead of raw trackUris
-      firstTrackUri, // ✅ Store first track to mark it as played later
+      firstTrackUri, // ✅ Store first track (already playing)
       deviceId,
-      currentIndex: 0,
+      // Tracks that went out with the play request count as queued already
+      currentIndex: Math.min(Math.max(playedTrackCount - 1, 0), validatedTrackUris.length),
       totalTracks: validatedTrackUris.length, // ✅ Use validated count
       isActive: true,
       startedAt: Date.now(),
       stats,
+      drip: queueMode?.type === 'drip'
+        ? { bufferSize: queueMode.bufferSize, playedIndex: 0, lastSeenAt: Date.now() }
+        : undefined,
     };
 
     // Save state
     await saveQueueState(state);
 
+    // Start watching playback so tracks are only marked as heard once they actually play
+    await startListeningSession({
+      playlistId,
+      playlistName,
+      trackIds: [firstTrackUri, ...validatedTrackUris].map(getTrackIdFromUri),
+    });
+
     // Show initial notification (foreground service notification)
-    await showQueueStartNotification(playlistName, tracks.length);
+    await showQueueStartNotification(playlistName, tracks.length, stats?.addedTracks, stats?.setSizeLabel);
 
     // ✅ FIX: Start processing asynchronously to avoid blocking UI
     // The queue will process in the background while UI remains responsive
@@ -493,20 +1040,222 @@ export async function startBackgroundQueue(params: {
 }
 
 /**
- * Stop the background queue
+ * Line a set up behind the running queue
+ *
+ * Nothing is played: the set becomes a pending job and is added to the
+ * Spotify queue once the jobs before it are done. If the running queue
+ * already ended in the meantime, the job starts right away.
  */
-export async function stopBackgroundQueue(): Promise<void> {
-  console.log('[QueueBackgroundService] Stopping background queue');
+export async function enqueueBackgroundQueue(params: {
+  playlistId: string;
+  playlistName: string;
+  tracks: SpotifyTrack[];
+  stats?: QueueJob['stats'];
+}): Promise<boolean> {
+  const { playlistId, playlistName, tracks, stats } = params;
+
+  try {
+    const trackUris = validateQueueUris(tracks.map(t => t.uri));
+
+    await createQueueJob({
+      playlistId,
+      playlistName,
+      status: 'pending',
+      totalTracks: trackUris.length,
+      trackUris,
+      stats,
+    });
+
+    console.log(`[QueueBackgroundService] Job lined up: ${playlistName} (${trackUris.length} tracks)`);
+
+    await invalidateQueueStatus();
+    await startNextJob();
+
+    return true;
+  } catch (error) {
+    console.error('[QueueBackgroundService] Error lining up queue job:', error);
+    // The set was never queued, so it goes back to the unheard pool
+    await rollbackUnqueuedTracks(playlistId, tracks.map(t => t.id));
+    await showQueueErrorNotification(error instanceof Error ? error.message : 'Failed to line up queue');
+    return false;
+  }
+}
+
+/**
+ * Cancel a job - pending ones are dropped, the running (or paused) one is cancelled
+ * Either way its unqueued tracks go back to the unheard pool.
+ */
+export async function cancelQueueJob(jobId: string): Promise<boolean> {
+  const job = await getQueueJob(jobId);
+  if (!job) return false;
+
+  if (job.status === 'pending') {
+    console.log(`[QueueBackgroundService] Dropping pending job: ${job.playlistName}`);
+    await rollbackUnqueuedTracks(job.playlistId, (job.trackUris ?? []).map(getTrackIdFromUri));
+    await updateQueueJob(jobId, { status: 'cancelled', finishedAt: Date.now(), trackUris: undefined });
+    await invalidateQueueStatus();
+    return true;
+  }
 
-  // Load current state and mark as inactive
   const state = await loadQueueState();
-  if (state) {
-    state.isActive = false;
-    await saveQueueState(state);
+  if (state?.jobId !== jobId) return false;
+
+  return await cancelBackgroundQueue();
+}
+
+/**
+ * Pause the running queue after the current track
+ * currentIndex is kept, so resumeBackgroundQueue continues where it stopped.
+ */
+export async function pauseBackgroundQueue(): Promise<boolean> {
+  const state = await loadQueueState();
+  if (!state || !state.isActive || state.isPaused) return false;
+
+  console.log('[QueueBackgroundService] Pause requested');
+
+  if (activeRuns > 0) {
+    // Applied by processQueue between two tracks
+    pendingControl = 'pause';
+  } else {
+    await handleTaskPause(state);
+  }
+
+  return true;
+}
+
+/**
+ * Resume a paused queue from where it stopped
+ * Fails (with the usual error recovery) if the device went away in the meantime.
+ */
+export async function resumeBackgroundQueue(): Promise<boolean> {
+  // Pause requested but not applied yet - just keep going
+  if (pendingControl === 'pause') {
+    pendingControl = null;
+    return true;
+  }
+
+  const state = await loadQueueState();
+  if (!state || !state.isActive || !state.isPaused || activeRuns > 0) return false;
+
+  console.log(`[QueueBackgroundService] Resuming queue at ${state.currentIndex}/${state.totalTracks}`);
+
+  const deviceHealthy = await SpotifyService.verifyDeviceHealth(state.deviceId);
+  if (!deviceHealthy) {
+    await handleTaskError(state, 'Spotify device is no longer available. Remaining tracks were returned to the unheard pool.');
+    return false;
+  }
+
+  await restartProcessing(state);
+  return true;
+}
+
+/**
+ * Cancel the queue (running or paused)
+ * Unqueued tracks were never marked as heard, so they stay in the unheard pool, same as on errors.
+ */
+export async function cancelBackgroundQueue(): Promise<boolean> {
+  const state = await loadQueueState();
+  if (!state || !state.isActive) return false;
+
+  console.log('[QueueBackgroundService] Cancel requested');
+
+  if (activeRuns > 0) {
+    // Applied by processQueue between two tracks
+    pendingControl = 'cancel';
+  } else {
+    await handleTaskCancel(state);
+  }
+
+  return true;
+}
+
+/**
+ * Find a queue that was cut short by an app kill or crash
+ *
+ * The state is still marked active, but nothing in this process is working on
+ * it. Paused queues don't count - they are already waiting for the user.
+ */
+export async function getInterruptedQueue(): Promise<InterruptedQueue | null> {
+  const state = await loadQueueState();
+  if (!state || !state.isActive || state.isPaused || activeRuns > 0) return null;
+
+  return {
+    playlistId: state.playlistId,
+    playlistName: state.playlistName,
+    deviceId: state.deviceId,
+    progress: state.currentIndex,
+    total: state.totalTracks,
+    startedAt: state.startedAt,
+  };
+}
+
+/**
+ * Resume an interrupted queue from currentIndex
+ *
+ * @param deviceId - Device to continue on; defaults to the one the queue started on.
+ *                   Playback is transferred there first so the queue lands where the user listens.
+ * @returns false if the device isn't available - the state is kept so the user can pick another one
+ */
+export async function resumeInterruptedQueue(deviceId?: string): Promise<boolean> {
+  const state = await loadQueueState();
+  if (!state || !state.isActive || state.isPaused || activeRuns > 0) return false;
+
+  const targetDeviceId = deviceId ?? state.deviceId;
+  console.log(
+    `[QueueBackgroundService] Resuming interrupted queue at ${state.currentIndex}/${state.totalTracks} on ${targetDeviceId}`
+  );
+
+  const deviceHealthy = await SpotifyService.verifyDeviceHealth(targetDeviceId);
+  if (!deviceHealthy) {
+    console.warn('[QueueBackgroundService] Device for interrupted queue is not available');
+    return false;
+  }
+
+  if (targetDeviceId !== state.deviceId) {
+    const transferred = await SpotifyService.transferPlayback(targetDeviceId, true).catch(error => {
+      console.error('[QueueBackgroundService] Error transferring playback:', error);
+      return false;
+    });
+    if (!transferred) {
+      console.warn('[QueueBackgroundService] Could not transfer playback to the new device');
+      return false;
+    }
+    state.deviceId = targetDeviceId;
   }
 
-  // Dismiss notification
-  await dismissNotification();
+  await restartProcessing(state);
+  return true;
+}
+
+/**
+ * Give up on an interrupted queue
+ * Tracks that never made it into the Spotify queue were never marked, so they
+ * stay unheard - only the listening session stops waiting for them.
+ */
+export async function rollBackInterruptedQueue(): Promise<boolean> {
+  const state = await loadQueueState();
+  if (!state || !state.isActive || activeRuns > 0) return false;
+
+  console.log(
+    `[QueueBackgroundService] Rolling back interrupted queue at ${state.currentIndex}/${state.totalTracks}`
+  );
+
+  await releaseRemainingTracks(state);
+  await clearQueueState();
+  await finishJob(state, 'cancelled');
+  await dismissNotification(); // The sticky progress notification outlives the app
+  await invalidateQueueStatus();
+  await startNextJob(state.deviceId);
+
+  return true;
+}
+
+/**
+ * Stop the background queue
+ * Same as cancelling: remaining tracks stay unheard.
+ */
+export async function stopBackgroundQueue(): Promise<void> {
+  await cancelBackgroundQueue();
 }
 
 /**
@@ -514,6 +1263,10 @@ export async function stopBackgroundQueue(): Promise<void> {
  */
 export async function getQueueProgress(): Promise<{
   isActive: boolean;
+  isPaused: boolean;
+  isInterrupted: boolean;
+  playlistId: string;
+  playlistName: string;
   progress: number;
   total: number;
   percentage: number;
@@ -523,9 +1276,13 @@ export async function getQueueProgress(): Promise<{
 
   return {
     isActive: state.isActive,
+    isPaused: state.isPaused ?? false,
+    isInterrupted: state.isActive && !state.isPaused && activeRuns === 0,
+    playlistId: state.playlistId,
+    playlistName: state.playlistName,
     progress: state.currentIndex,
     total: state.totalTracks,
-    percentage: Math.round((state.currentIndex / state.totalTracks) * 100),
+    percentage: state.totalTracks > 0 ? Math.round((state.currentIndex / state.totalTracks) * 100) : 100,
   };
 }
 
@@ -545,41 +1302,40 @@ export async function getActiveQueuePlaylistId(): Promise<string | null> {
   return state.playlistId;
 }
 
+/**
+ * Track IDs of a playlist that are already on their way to Spotify
+ * The running set (queued or not yet) and any sets lined up behind it - a new
+ * set drawn for the same playlist should leave these out, since they're still
+ * unheard in shuffle memory.
+ */
+export async function getInFlightTrackIds(playlistId: string): Promise<string[]> {
+  const uris: string[] = [];
+
+  const state = await loadQueueState();
+  if (state?.isActive && state.playlistId === playlistId) {
+    uris.push(...state.tracks);
+    if (state.firstTrackUri) uris.push(state.firstTrackUri);
+  }
+
+  const jobs = await getQueueJobs();
+  jobs
+    .filter(job => job.status === 'pending' && job.playlistId === playlistId)
+    .forEach(job => uris.push(...(job.trackUris ?? [])));
+
+  return uris.map(getTrackIdFromUri);
+}
+
 /**
  * Check if a queue is currently active
  *
- * Also performs cleanup of stale queue states (e.g. from app crashes).
- * A queue is considered stale if it's been active for more than 45 minutes,
- * which is longer than any realistic queue could take.
- *
- * Calculation:
- * - Largest realistic playlist: ~10,000 tracks
- * - Rate: 150ms per track
- * - Max time: 10,000 × 0.15s = 1,500s ≈ 25 minutes
- * - Safe timeout: 45 minutes (80% buffer)
+ * Interrupted queues (app killed mid-queue) still count as active: the user
+ * decides whether to resume them or give up on the rest (see
+ * getInterruptedQueue) before a new queue can start.
  */
 export async function isQueueActive(): Promise<boolean> {
   const state = await loadQueueState();
 
   if (!state) return false;
 
-  // Check if queue state is stale (likely from app crash/force-close)
-  const STALE_TIMEOUT_MS = 45 * 60 * 1000; // 45 minutes
-  const isStale = state.isActive && (Date.now() - state.startedAt > STALE_TIMEOUT_MS);
-
-  if (isStale) {
-    console.warn(
-      `[QueueBackgroundService] Detected stale queue state (started ${Math.round((Date.now() - state.startedAt) / 60000)} minutes ago). Cleaning up...`
-    );
-
-    // Clear the stale state to allow new queues
-    await clearQueueState();
-
-    // Dismiss any lingering notification
-    await dismissNotification();
-
-    return false;
-  }
-
   return state.isActive ?? false;
 }
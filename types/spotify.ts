@@ -25,7 +25,7 @@ export interface SpotifyPlaylist {
   }[];
   name: string;
   owner: {
-      display_name: string;
+      display_name: string | null; // Null for some users
       external_urls: {
           spotify: string;
       };
@@ -50,9 +50,11 @@ export interface SpotifyTrack {
   name: string;
   uri: string;
   artists: Array<{
+    id: string | null;          // Missing for local files
     name: string;
   }>;
   album: {
+    id: string | null;          // Missing for local files
     name: string;
     images: Array<{
       url: string;
@@ -65,11 +67,81 @@ export interface SpotifyTrack {
   external_urls: {
     spotify: string;
   };
+  external_ids?: {
+    isrc?: string; // International Standard Recording Code - same recording across releases
+  };
+  added_at?: string; // When the track was added to its playlist/library (not part of Spotify's track object)
+}
+
+export interface SpotifyArtist {
+  id: string;
+  name: string;
+  uri: string;
+  images: Array<{
+    url: string;
+    height: number;
+    width: number;
+  }>;
+}
+
+/**
+ * Track as listed inside an album - same as SpotifyTrack minus the album itself
+ */
+export type SpotifySimplifiedTrack = Omit<SpotifyTrack, 'album' | 'added_at' | 'artists'> & {
+  artists: Array<{
+    id: string;
+    name: string;
+  }>;
+};
+
+export interface SpotifyAlbum {
+  id: string;
+  name: string;
+  uri: string;
+  album_type: 'album' | 'single' | 'compilation';
+  images: Array<{
+    url: string;
+    height: number;
+    width: number;
+  }>;
+  tracks: {
+    items: SpotifySimplifiedTrack[];
+    next: string | null;
+    total: number;
+  };
+}
+
+export interface SpotifyPlaybackState {
+  device: {
+    id: string;
+    is_active: boolean;
+    name: string;
+    type: string;
+  } | null;
+  context: {
+    type: string;
+    uri: string;
+  } | null;
+  is_playing: boolean;
+  progress_ms: number | null;
+  currently_playing_type: 'track' | 'episode' | 'ad' | 'unknown';
+  item: SpotifyTrack | null;
+}
+
+/**
+ * The user's queue as returned by /me/player/queue
+ * Spotify only returns the next ~20 items, and when playback comes from a context
+ * (playlist, album) the upcoming context tracks follow the manually queued ones.
+ */
+export interface SpotifyQueue {
+  currently_playing: SpotifyTrack | null;
+  queue: SpotifyTrack[];
 }
 
 export interface PlaylistTracks {
   items: Array<{
-    track: SpotifyTrack;
+    added_at: string;
+    track: SpotifyTrack | null;
   }>;
   next: string | null;
   total: number;
@@ -0,0 +1,183 @@
+/**
+ * Playlist Blends
+ *
+ * A blend is a virtual playlist made of several playlists (and optionally
+ * Liked Songs). Its tracks are the deduplicated union of its sources, and it
+ * has its own smart shuffle memory keyed by the blend ID, so heard-state is
+ * tracked once across the whole blend.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { deletePlaylistShuffleData } from './smartShuffle';
+import type { SpotifyPlaylist, SpotifyTrack, SpotifyUser } from '@/types/spotify';
+
+const BLENDS_KEY = 'playlist_blends';
+
+/**
+ * Prefix for blend IDs - keeps them apart from Spotify playlist IDs and 'liked-songs'
+ */
+export const BLEND_ID_PREFIX = 'blend:';
+
+/**
+ * Source ID used for Liked Songs inside a blend (same as the synthetic playlist)
+ */
+export const LIKED_SONGS_SOURCE_ID = 'liked-songs';
+
+export interface PlaylistBlend {
+  id: string;
+  name: string;
+  sourceIds: string[];          // Playlist IDs, may include LIKED_SONGS_SOURCE_ID
+  trackCount: number;           // Deduplicated track count (estimated until first shuffle)
+  createdAt: number;
+}
+
+/**
+ * Check whether an ID refers to a blend
+ */
+export function isBlendId(id: string): boolean {
+  return id.startsWith(BLEND_ID_PREFIX);
+}
+
+/**
+ * Get all saved blends, oldest first
+ */
+export async function getBlends(): Promise<PlaylistBlend[]> {
+  try {
+    const json = await AsyncStorage.getItem(BLENDS_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('[Blends] Failed to get blends:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a single blend by ID
+ */
+export async function getBlend(blendId: string): Promise<PlaylistBlend | null> {
+  const blends = await getBlends();
+  return blends.find(blend => blend.id === blendId) ?? null;
+}
+
+async function saveBlends(blends: PlaylistBlend[]): Promise<void> {
+  await AsyncStorage.setItem(BLENDS_KEY, JSON.stringify(blends));
+}
+
+/**
+ * Create a new blend
+ *
+ * @param estimatedTrackCount - Sum of source sizes; corrected after the first shuffle
+ */
+export async function createBlend(
+  name: string,
+  sourceIds: string[],
+  estimatedTrackCount: number
+): Promise<PlaylistBlend> {
+  const blend: PlaylistBlend = {
+    id: `${BLEND_ID_PREFIX}${Date.now().toString(36)}`,
+    name,
+    sourceIds: Array.from(new Set(sourceIds)),
+    trackCount: estimatedTrackCount,
+    createdAt: Date.now(),
+  };
+
+  const blends = await getBlends();
+  await saveBlends([...blends, blend]);
+
+  return blend;
+}
+
+/**
+ * Delete a blend together with its shuffle memory, settings and exclusions
+ */
+export async function deleteBlend(blendId: string): Promise<void> {
+  try {
+    const blends = await getBlends();
+    await saveBlends(blends.filter(blend => blend.id !== blendId));
+    await deletePlaylistShuffleData(blendId);
+  } catch (error) {
+    console.error('[Blends] Failed to delete blend:', error);
+  }
+}
+
+/**
+ * Store the deduplicated track count after the blend's tracks were resolved
+ * Keeps the progress ring on the home screen accurate
+ */
+export async function updateBlendTrackCount(blendId: string, trackCount: number): Promise<void> {
+  try {
+    const blends = await getBlends();
+    const blend = blends.find(b => b.id === blendId);
+
+    if (blend && blend.trackCount !== trackCount) {
+      blend.trackCount = trackCount;
+      await saveBlends(blends);
+    }
+  } catch (error) {
+    console.error('[Blends] Failed to update track count:', error);
+  }
+}
+
+/**
+ * Merge the track lists of all sources, keeping the first occurrence of each track ID
+ */
+export function mergeBlendTracks(trackLists: SpotifyTrack[][]): SpotifyTrack[] {
+  const seen = new Set<string>();
+  const merged: SpotifyTrack[] = [];
+
+  for (const tracks of trackLists) {
+    for (const track of tracks) {
+      if (!track?.id || seen.has(track.id)) continue;
+      seen.add(track.id);
+      merged.push(track);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Create a synthetic playlist for a blend so it can be listed and shuffled like any playlist
+ *
+ * @param sourcePlaylists - Known playlists, used to borrow artwork from the first source
+ */
+export function createBlendPlaylist(
+  blend: PlaylistBlend,
+  user: SpotifyUser,
+  sourcePlaylists: SpotifyPlaylist[]
+): SpotifyPlaylist {
+  const artworkSource = blend.sourceIds
+    .map(id => sourcePlaylists.find(playlist => playlist.id === id))
+    .find(playlist => playlist?.images?.length);
+
+  return {
+    collaborative: false,
+    description: `Blend of ${blend.sourceIds.length} sources`,
+    external_urls: {
+      spotify: '',
+    },
+    href: '',
+    id: blend.id,
+    images: artworkSource?.images ?? [],
+    name: blend.name,
+    owner: {
+      display_name: `Blend of ${blend.sourceIds.length}`,
+      external_urls: {
+        spotify: `https://open.spotify.com/user/${user.id}`
+      },
+      href: `https://api.spotify.com/v1/users/${user.id}`,
+      id: user.id,
+      type: 'user' as const,
+      uri: `spotify:user:${user.id}`
+    },
+    primary_color: null,
+    public: false,
+    snapshot_id: `${blend.id}-snapshot`,
+    tracks: {
+      href: '',
+      total: blend.trackCount,
+    },
+    type: 'playlist' as const,
+    uri: '', // No Spotify context - blends only exist in Flux
+  };
+}
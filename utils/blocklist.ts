@@ -0,0 +1,225 @@
+/**
+ * Blocklist
+ *
+ * User-wide list of artists and tracks that are never shuffled in, whatever
+ * the source - e.g. the one song that's on every shared playlist. Blocked
+ * tracks are taken out of the pool in getSmartShuffledTracks the same way as
+ * per-playlist exclusions, so cycles complete without them. Each shuffle
+ * records which of the playlist's tracks were blocked, so progress rings
+ * pick up blocklist changes with the playlist's next shuffle.
+ *
+ * Artists and tracks are stored with their names, so the list can be shown
+ * (and imported on another device) without asking Spotify.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SpotifyTrack } from '@/types/spotify';
+
+const BLOCKLIST_KEY = 'shuffle_blocklist';
+const EXPORT_VERSION = 1;
+
+export interface BlockedArtist {
+  id: string;
+  name: string;
+  blockedAt: number;
+}
+
+export interface BlockedTrack {
+  id: string;
+  name: string;
+  artistNames: string[];
+  blockedAt: number;
+}
+
+export interface Blocklist {
+  artists: BlockedArtist[];
+  tracks: BlockedTrack[];
+}
+
+/**
+ * Why a track is blocked, for explaining it in the UI
+ */
+export type BlockReason =
+  | { type: 'track' }
+  | { type: 'artist'; artistName: string };
+
+const EMPTY_BLOCKLIST: Blocklist = { artists: [], tracks: [] };
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Get the blocklist (empty if nothing was ever blocked)
+ */
+export async function getBlocklist(): Promise<Blocklist> {
+  try {
+    const json = await AsyncStorage.getItem(BLOCKLIST_KEY);
+    return json ? { ...EMPTY_BLOCKLIST, ...JSON.parse(json) } : EMPTY_BLOCKLIST;
+  } catch (error) {
+    console.error('[Blocklist] Failed to get blocklist:', error);
+    return EMPTY_BLOCKLIST;
+  }
+}
+
+async function saveBlocklist(blocklist: Blocklist): Promise<void> {
+  await AsyncStorage.setItem(BLOCKLIST_KEY, JSON.stringify(blocklist));
+}
+
+/**
+ * Block an artist everywhere
+ */
+export async function blockArtist(artist: { id: string; name: string }): Promise<Blocklist> {
+  const blocklist = await getBlocklist();
+  if (blocklist.artists.some(blocked => blocked.id === artist.id)) {
+    return blocklist;
+  }
+
+  const updated = {
+    ...blocklist,
+    artists: [...blocklist.artists, { id: artist.id, name: artist.name, blockedAt: Date.now() }],
+  };
+  await saveBlocklist(updated);
+  return updated;
+}
+
+/**
+ * Block a single track everywhere
+ */
+export async function blockTrack(track: SpotifyTrack): Promise<Blocklist> {
+  const blocklist = await getBlocklist();
+  if (blocklist.tracks.some(blocked => blocked.id === track.id)) {
+    return blocklist;
+  }
+
+  const updated = {
+    ...blocklist,
+    tracks: [
+      ...blocklist.tracks,
+      {
+        id: track.id,
+        name: track.name,
+        artistNames: track.artists.map(artist => artist.name),
+        blockedAt: Date.now(),
+      },
+    ],
+  };
+  await saveBlocklist(updated);
+  return updated;
+}
+
+export async function unblockArtist(artistId: string): Promise<Blocklist> {
+  const blocklist = await getBlocklist();
+  const updated = { ...blocklist, artists: blocklist.artists.filter(artist => artist.id !== artistId) };
+  await saveBlocklist(updated);
+  return updated;
+}
+
+export async function unblockTrack(trackId: string): Promise<Blocklist> {
+  const blocklist = await getBlocklist();
+  const updated = { ...blocklist, tracks: blocklist.tracks.filter(track => track.id !== trackId) };
+  await saveBlocklist(updated);
+  return updated;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Explain why a track is blocked
+ *
+ * @returns The reason, or null if the track isn't blocked
+ */
+export function getBlockReason(track: SpotifyTrack, blocklist: Blocklist): BlockReason | null {
+  if (blocklist.tracks.some(blocked => blocked.id === track.id)) {
+    return { type: 'track' };
+  }
+
+  const blockedArtist = blocklist.artists.find(blocked => track.artists.some(artist => artist.id === blocked.id));
+  return blockedArtist ? { type: 'artist', artistName: blockedArtist.name } : null;
+}
+
+/**
+ * IDs of the blocked tracks among a source's tracks
+ */
+export function getBlockedTrackIds(tracks: SpotifyTrack[], blocklist: Blocklist): string[] {
+  if (blocklist.artists.length === 0 && blocklist.tracks.length === 0) {
+    return [];
+  }
+
+  return tracks.filter(track => getBlockReason(track, blocklist) !== null).map(track => track.id);
+}
+
+/**
+ * One-line explanation for the UI, e.g. "Blocked artist: Nickelback"
+ */
+export function describeBlockReason(reason: BlockReason): string {
+  return reason.type === 'artist' ? `Blocked artist: ${reason.artistName}` : 'Blocked track';
+}
+
+// ============================================================================
+// Import & Export
+// ============================================================================
+
+/**
+ * Serialize the blocklist for sharing or backing up
+ */
+export function exportBlocklist(blocklist: Blocklist): string {
+  return JSON.stringify({ version: EXPORT_VERSION, ...blocklist }, null, 2);
+}
+
+/**
+ * Merge an exported blocklist into the current one
+ * Entries that are already blocked are kept as they are.
+ *
+ * @returns The merged blocklist and how many entries were new
+ * @throws Error if the text isn't an exported blocklist
+ */
+export async function importBlocklist(json: string): Promise<{ blocklist: Blocklist; added: number }> {
+  let parsed: Partial<Blocklist>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("That doesn't look like an exported blocklist");
+  }
+
+  const isValid =
+    parsed !== null &&
+    typeof parsed === 'object' &&
+    Array.isArray(parsed.artists ?? []) &&
+    Array.isArray(parsed.tracks ?? []) &&
+    (parsed.artists ?? []).every(artist => typeof artist?.id === 'string' && typeof artist?.name === 'string') &&
+    (parsed.tracks ?? []).every(track => typeof track?.id === 'string' && typeof track?.name === 'string');
+
+  if (!isValid) {
+    throw new Error("That doesn't look like an exported blocklist");
+  }
+
+  const current = await getBlocklist();
+  // Also filled while merging, so entries listed twice in the file are only added once
+  const knownArtists = new Set(current.artists.map(artist => artist.id));
+  const knownTracks = new Set(current.tracks.map(track => track.id));
+  const now = Date.now();
+
+  const newArtists = (parsed.artists ?? [])
+    .filter(artist => !knownArtists.has(artist.id) && knownArtists.add(artist.id))
+    .map(artist => ({ id: artist.id, name: artist.name, blockedAt: artist.blockedAt ?? now }));
+  const newTracks = (parsed.tracks ?? [])
+    .filter(track => !knownTracks.has(track.id) && knownTracks.add(track.id))
+    .map(track => ({
+      id: track.id,
+      name: track.name,
+      artistNames: Array.isArray(track.artistNames) ? track.artistNames : [],
+      blockedAt: track.blockedAt ?? now,
+    }));
+
+  const blocklist = {
+    artists: [...current.artists, ...newArtists],
+    tracks: [...current.tracks, ...newTracks],
+  };
+  await saveBlocklist(blocklist);
+
+  console.log(`[Blocklist] Imported ${newArtists.length} artists and ${newTracks.length} tracks`);
+  return { blocklist, added: newArtists.length + newTracks.length };
+}
@@ -0,0 +1,142 @@
+/**
+ * Duplicate Tracks
+ *
+ * Finds the same recording released under different Spotify IDs - a single,
+ * the album and a compilation - so smart shuffle can count it as one song per
+ * cycle. Tracks match on ISRC, or - when one of them has no ISRC - on
+ * normalized title, primary artist and duration.
+ *
+ * No storage access here, so scripts/checkDuplicateTracks.ts can run it
+ * under Node.
+ */
+
+import type { SpotifyTrack } from '@/types/spotify';
+
+/**
+ * Version suffixes that don't make a different song
+ * "Song - Remastered 2011", "Song (feat. X)", "Song - Single Version", ...
+ */
+const VERSION_SUFFIX_PATTERN = /\b(feat|ft|remaster(ed)?|mono|stereo|single version|album version|radio edit|explicit|clean)\b/;
+
+// "(with X)" credits a guest like "(feat. X)" - but only in brackets, since
+// "Song - Live with Orchestra" is a different recording
+const BRACKETED_GUEST_PATTERN = /^[(\[]with\b/;
+
+// Live, acoustic and remix versions are different recordings and never stripped,
+// even when the same suffix also says "Remastered"
+const DISTINCT_VERSION_PATTERN = /\b(live|acoustic|remix|mix)\b/;
+
+// Releases of one recording differ by a little silence at most; "Intro" or
+// "Interlude" by the same artist usually differ by much more
+const DURATION_TOLERANCE_MS = 3 * 1000;
+
+/**
+ * Normalize a title or artist name for comparison
+ * Lowercases, strips Latin accents, version suffixes and punctuation. Letters
+ * and numbers of every script are kept, so non-Latin titles stay distinct.
+ */
+function normalizeForMatching(text: string): string {
+  let normalized = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+  // Drop bracketed version info: "(feat. X)", "(with X)", "[Remastered]"
+  normalized = normalized.replace(/[(\[][^)\]]*[)\]]/g, match =>
+    !DISTINCT_VERSION_PATTERN.test(match) &&
+    (VERSION_SUFFIX_PATTERN.test(match) || BRACKETED_GUEST_PATTERN.test(match))
+      ? ''
+      : match
+  );
+
+  // Drop dash version info: " - Remastered 2011", " - Single Version"
+  const dashIndex = normalized.indexOf(' - ');
+  if (dashIndex !== -1) {
+    const suffix = normalized.slice(dashIndex);
+    if (VERSION_SUFFIX_PATTERN.test(suffix) && !DISTINCT_VERSION_PATTERN.test(suffix)) {
+      normalized = normalized.slice(0, dashIndex);
+    }
+  }
+
+  // Marks stay too - NFKD splits e.g. Japanese dakuten off their kana
+  return normalized.replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Key identifying a song by normalized name plus primary artist
+ * Returns null when the title normalizes to nothing (e.g. "???"), since such
+ * tracks can't be told apart by name.
+ */
+function getSongKey(track: SpotifyTrack): string | null {
+  const name = normalizeForMatching(track.name);
+  if (!name) return null;
+
+  const primaryArtist = track.artists?.[0]?.name ?? '';
+  return `${name}|${normalizeForMatching(primaryArtist)}`;
+}
+
+/**
+ * Group tracks that are the same recording under different Spotify IDs
+ *
+ * Two tracks are duplicates when they share an ISRC. Tracks with different
+ * ISRCs are different recordings; only when one of them has no ISRC do they
+ * match on normalized name and primary artist, with durations within a few
+ * seconds. Matches are transitive (union-find), so a single, album and
+ * compilation release all end up in one group.
+ *
+ * @returns Groups of track IDs in playlist order (singletons included)
+ */
+export function groupDuplicateTracks(tracks: SpotifyTrack[]): string[][] {
+  const parent = tracks.map((_, index) => index);
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // Keep the earliest track as root so it represents the group
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  const isrcs = tracks.map(track => track.external_ids?.isrc?.toUpperCase());
+  const firstByIsrc = new Map<string, number>();
+  const bySongKey = new Map<string, number[]>();
+
+  tracks.forEach((track, index) => {
+    const isrc = isrcs[index];
+    if (isrc) {
+      const first = firstByIsrc.get(isrc);
+      if (first === undefined) firstByIsrc.set(isrc, index);
+      else union(first, index);
+    }
+
+    const songKey = getSongKey(track);
+    if (songKey === null) return;
+
+    const sameName = bySongKey.get(songKey);
+    if (!sameName) {
+      bySongKey.set(songKey, [index]);
+      return;
+    }
+
+    for (const other of sameName) {
+      const hasBothIsrcs = isrc !== undefined && isrcs[other] !== undefined;
+      const durationGap = Math.abs(track.duration_ms - tracks[other].duration_ms);
+      if (!hasBothIsrcs && durationGap <= DURATION_TOLERANCE_MS) union(other, index);
+    }
+    sameName.push(index);
+  });
+
+  const groups = new Map<number, string[]>();
+  tracks.forEach((track, index) => {
+    const root = find(index);
+    const group = groups.get(root);
+    if (group) group.push(track.id);
+    else groups.set(root, [track.id]);
+  });
+
+  return Array.from(groups.values());
+}
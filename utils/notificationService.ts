@@ -44,6 +44,16 @@ import { Platform } from 'react-native';
 const QUEUE_CHANNEL_ID = 'queue-progress';
 const NOTIFICATION_ID = 'queue-notification';
 
+// Notification categories carrying the queue control buttons
+const QUEUE_RUNNING_CATEGORY = 'queue-running';
+const QUEUE_PAUSED_CATEGORY = 'queue-paused';
+
+/**
+ * Queue controls available as notification buttons
+ */
+export type QueueNotificationAction = 'pause' | 'resume' | 'cancel';
+const QUEUE_ACTIONS: QueueNotificationAction[] = ['pause', 'resume', 'cancel'];
+
 // Configure how notifications should be handled when app is in foreground
 // These settings ensure the foreground service notification is always visible
 Notifications.setNotificationHandler({
@@ -135,6 +145,42 @@ export async function setupNotificationChannel(): Promise<void> {
   }
 }
 
+/**
+ * Register the notification categories with queue control buttons
+ * Running queues get Pause/Cancel, paused queues get Resume/Cancel.
+ * Buttons don't open the app - the action is handled in the background.
+ */
+export async function setupNotificationCategories(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(QUEUE_RUNNING_CATEGORY, [
+      { identifier: 'pause', buttonTitle: 'Pause', options: { opensAppToForeground: false } },
+      { identifier: 'cancel', buttonTitle: 'Cancel', options: { opensAppToForeground: false, isDestructive: true } },
+    ]);
+    await Notifications.setNotificationCategoryAsync(QUEUE_PAUSED_CATEGORY, [
+      { identifier: 'resume', buttonTitle: 'Resume', options: { opensAppToForeground: false } },
+      { identifier: 'cancel', buttonTitle: 'Cancel', options: { opensAppToForeground: false, isDestructive: true } },
+    ]);
+  } catch (error) {
+    console.error('[Notifications] Error creating queue control categories:', error);
+  }
+}
+
+/**
+ * Listen for taps on the queue control buttons
+ *
+ * @returns Function that removes the listener
+ */
+export function addQueueActionListener(handler: (action: QueueNotificationAction) => void): () => void {
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    const action = response.actionIdentifier as QueueNotificationAction;
+    if (QUEUE_ACTIONS.includes(action)) {
+      handler(action);
+    }
+  });
+
+  return () => subscription.remove();
+}
+
 /**
  * Show initial queueing notification with Material 3 design
  * This acts as the foreground service notification on Android
@@ -149,19 +195,29 @@ export async function setupNotificationChannel(): Promise<void> {
  */
 export async function showQueueStartNotification(
   playlistName: string,
-  totalTracks: number
+  totalTracks: number,
+  addedTracks?: number,
+  setSizeLabel?: string
 ): Promise<void> {
   try {
+    // Mention playlist changes picked up by this shuffle, if any
+    const subtitle = addedTracks
+      ? `${addedTracks} new track${addedTracks === 1 ? '' : 's'} added since last shuffle`
+      : 'Starting...';
+
     await Notifications.scheduleNotificationAsync({
       identifier: NOTIFICATION_ID,
       content: {
         title: 'Queueing to Spotify',
-        body: `${totalTracks} tracks from ${playlistName}`,
-        subtitle: 'Starting...', // Secondary text for Material 3 hierarchy
+        body: setSizeLabel
+          ? `${totalTracks} tracks from ${playlistName} • ${setSizeLabel}`
+          : `${totalTracks} tracks from ${playlistName}`,
+        subtitle, // Secondary text for Material 3 hierarchy
         color: '#1DB954', // Spotify brand green - Material 3 accent
         priority: Notifications.AndroidNotificationPriority.LOW,
         sticky: true, // CRITICAL: Keeps foreground service alive
         autoDismiss: false,
+        categoryIdentifier: QUEUE_RUNNING_CATEGORY, // Pause / Cancel buttons
         data: {
           type: 'queue-progress',
           isForegroundService: true,
@@ -190,11 +246,14 @@ export async function showQueueStartNotification(
  *
  * Note: Text-based progress updates provide excellent UX without requiring
  * native Android progress bar APIs not available in Expo.
+ *
+ * @param statusText - Replaces the percentage subtitle (e.g. while paused by a rate limit)
  */
 export async function updateQueueProgressNotification(
   progress: number,
   total: number,
-  playlistName: string
+  playlistName: string,
+  statusText?: string
 ): Promise<void> {
   try {
     const percentage = Math.round((progress / total) * 100);
@@ -205,11 +264,12 @@ export async function updateQueueProgressNotification(
       content: {
         title: 'Queueing to Spotify',
         body: `${progress} of ${total} tracks • ${remaining} remaining`,
-        subtitle: `${percentage}% complete`, // Material 3 secondary text
+        subtitle: statusText ?? `${percentage}% complete`, // Material 3 secondary text
         color: '#1DB954', // Spotify green accent
         priority: Notifications.AndroidNotificationPriority.LOW,
         sticky: true,
         autoDismiss: false,
+        categoryIdentifier: QUEUE_RUNNING_CATEGORY, // Pause / Cancel buttons
         data: {
           type: 'queue-progress',
           progress,
@@ -226,6 +286,84 @@ export async function updateQueueProgressNotification(
   }
 }
 
+/**
+ * Show paused notification - Material 3 design
+ * Stays visible with Resume / Cancel buttons until the user decides.
+ */
+export async function showQueuePausedNotification(
+  progress: number,
+  total: number,
+  playlistName: string
+): Promise<void> {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: NOTIFICATION_ID,
+      content: {
+        title: 'Queueing Paused',
+        body: `${progress} of ${total} tracks from ${playlistName}`,
+        subtitle: 'Resume to queue the rest',
+        color: '#1DB954',
+        priority: Notifications.AndroidNotificationPriority.LOW,
+        sticky: true, // Keep the Resume button around
+        autoDismiss: false,
+        categoryIdentifier: QUEUE_PAUSED_CATEGORY, // Resume / Cancel buttons
+        data: {
+          type: 'queue-paused',
+          progress,
+          total,
+          playlistName,
+        },
+        ...(Platform.OS === 'android' && {
+          channelId: QUEUE_CHANNEL_ID,
+        }),
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('[Notifications] Error showing paused notification:', error);
+  }
+}
+
+/**
+ * Show cancelled notification - Material 3 design
+ * Auto-dismisses; tracks that were not queued went back to the unheard pool.
+ */
+export async function showQueueCancelledNotification(
+  queuedCount: number,
+  playlistName: string
+): Promise<void> {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: NOTIFICATION_ID,
+      content: {
+        title: 'Queueing Cancelled',
+        body: `${queuedCount} track${queuedCount === 1 ? '' : 's'} from ${playlistName} stayed in your queue`,
+        subtitle: 'The rest stay unheard for next time',
+        color: '#1DB954',
+        priority: Notifications.AndroidNotificationPriority.DEFAULT,
+        sticky: false,
+        autoDismiss: true,
+        data: {
+          type: 'queue-cancelled',
+          queuedCount,
+          playlistName,
+        },
+        ...(Platform.OS === 'android' && {
+          channelId: QUEUE_CHANNEL_ID,
+        }),
+      },
+      trigger: null,
+    });
+
+    // Auto-dismiss after 4 seconds
+    setTimeout(() => {
+      dismissNotification();
+    }, 4000);
+  } catch (error) {
+    console.error('[Notifications] Error showing cancelled notification:', error);
+  }
+}
+
 /**
  * Show completion notification - Material 3 design
  *
@@ -274,6 +412,47 @@ export async function showQueueCompleteNotification(
   }
 }
 
+/**
+ * Show playlist saved notification - Material 3 design
+ * Shown instead of the completion notification when a set was saved as a playlist
+ */
+export async function showPlaylistSavedNotification(
+  exportName: string,
+  trackCount: number
+): Promise<void> {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: NOTIFICATION_ID,
+      content: {
+        title: 'Playlist Saved',
+        body: `${trackCount} shuffled tracks are ready in "${exportName}"`,
+        color: '#1DB954', // Success green
+        priority: Notifications.AndroidNotificationPriority.DEFAULT,
+        sticky: false,
+        autoDismiss: true,
+        data: {
+          type: 'playlist-saved',
+          exportName,
+          trackCount,
+        },
+        ...(Platform.OS === 'android' && {
+          channelId: QUEUE_CHANNEL_ID,
+        }),
+      },
+      trigger: null,
+    });
+
+    console.log('[Notifications] Playlist saved notification shown');
+
+    // Auto-dismiss after 4 seconds
+    setTimeout(() => {
+      dismissNotification();
+    }, 4000);
+  } catch (error) {
+    console.error('[Notifications] Error showing playlist saved notification:', error);
+  }
+}
+
 /**
  * Show error notification - Material 3 design
  *
@@ -339,6 +518,9 @@ export async function initializeNotifications(): Promise<boolean> {
   try {
     // Setup channel first (Android)
     await setupNotificationChannel();
+
+    // Pause / Resume / Cancel buttons on queue notifications
+    await setupNotificationCategories();
     
     // Request permissions
     const hasPermission = await requestNotificationPermissions();
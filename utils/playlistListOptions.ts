@@ -0,0 +1,144 @@
+/**
+ * Playlist List Options
+ *
+ * Search, filter and sort for the playlist list on the home screen.
+ * The chosen filter and sort are remembered between sessions; the search
+ * text is not.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ShuffleStats } from './smartShuffle';
+import type { SpotifyPlaylist } from '@/types/spotify';
+
+const PLAYLIST_LIST_OPTIONS_KEY = 'playlist_list_options';
+
+export type PlaylistFilter = 'all' | 'owned' | 'collaborative' | 'in-progress' | 'completed';
+
+export type PlaylistSort = 'library' | 'recent' | 'unheard' | 'size' | 'name';
+
+export interface PlaylistListOptions {
+  filter: PlaylistFilter;
+  sort: PlaylistSort;
+}
+
+export const DEFAULT_PLAYLIST_LIST_OPTIONS: PlaylistListOptions = {
+  filter: 'all',
+  sort: 'library',
+};
+
+/**
+ * Everything the list is filtered and sorted against
+ */
+export interface PlaylistListContext {
+  query: string;
+  userId?: string;
+  progress: Record<string, ShuffleStats | null | undefined>; // Keyed by playlist ID, missing until loaded
+  recentPlaylistIds: string[];                               // Most recent first
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Load the saved filter and sort, falling back to defaults
+ */
+export async function loadPlaylistListOptions(): Promise<PlaylistListOptions> {
+  try {
+    const json = await AsyncStorage.getItem(PLAYLIST_LIST_OPTIONS_KEY);
+    return json ? { ...DEFAULT_PLAYLIST_LIST_OPTIONS, ...JSON.parse(json) } : DEFAULT_PLAYLIST_LIST_OPTIONS;
+  } catch (error) {
+    console.error('[PlaylistListOptions] Failed to load options:', error);
+    return DEFAULT_PLAYLIST_LIST_OPTIONS;
+  }
+}
+
+/**
+ * Save the filter and sort
+ */
+export async function savePlaylistListOptions(options: PlaylistListOptions): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PLAYLIST_LIST_OPTIONS_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error('[PlaylistListOptions] Failed to save options:', error);
+  }
+}
+
+// ============================================================================
+// Filtering & Sorting
+// ============================================================================
+
+/**
+ * Whether a filter needs shuffle progress to be loaded for every playlist
+ */
+export function needsPlaylistProgress(options: PlaylistListOptions): boolean {
+  return options.filter === 'in-progress' || options.filter === 'completed' || options.sort === 'unheard';
+}
+
+// A playlist that was never shuffled is entirely unheard
+function getUnheardCount(playlist: SpotifyPlaylist, stats: ShuffleStats | null | undefined): number {
+  return stats ? stats.remaining : playlist.tracks.total;
+}
+
+function matchesFilter(playlist: SpotifyPlaylist, filter: PlaylistFilter, context: PlaylistListContext): boolean {
+  const stats = context.progress[playlist.id];
+
+  switch (filter) {
+    case 'owned':
+      return !!context.userId && playlist.owner.id === context.userId;
+    case 'collaborative':
+      return playlist.collaborative;
+    case 'in-progress':
+      return !!stats && stats.played > 0 && stats.remaining > 0;
+    case 'completed':
+      // Finished right now, or finished at least once before (cycleNumber counts completed cycles)
+      return !!stats && (stats.cycleComplete || stats.cycleNumber > 0);
+    case 'all':
+    default:
+      return true;
+  }
+}
+
+function matchesQuery(playlist: SpotifyPlaylist, query: string): boolean {
+  if (!query) return true;
+  // Spotify sends a null display_name for some owners
+  return playlist.name.toLowerCase().includes(query) ||
+    (playlist.owner.display_name ?? '').toLowerCase().includes(query);
+}
+
+/**
+ * Apply search, filter and sort to the playlist list
+ * Ties keep the library order, so equal playlists don't jump around between renders.
+ */
+export function filterAndSortPlaylists(
+  playlists: SpotifyPlaylist[],
+  options: PlaylistListOptions,
+  context: PlaylistListContext
+): SpotifyPlaylist[] {
+  const query = context.query.trim().toLowerCase();
+  const visible = playlists.filter(playlist =>
+    matchesQuery(playlist, query) && matchesFilter(playlist, options.filter, context)
+  );
+
+  switch (options.sort) {
+    case 'recent': {
+      // Never shuffled playlists go last
+      const rank = (playlist: SpotifyPlaylist) => {
+        const index = context.recentPlaylistIds.indexOf(playlist.id);
+        return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+      };
+      return [...visible].sort((a, b) => rank(a) - rank(b));
+    }
+    case 'unheard':
+      return [...visible].sort((a, b) =>
+        getUnheardCount(b, context.progress[b.id]) - getUnheardCount(a, context.progress[a.id])
+      );
+    case 'size':
+      return [...visible].sort((a, b) => b.tracks.total - a.tracks.total);
+    case 'name':
+      return [...visible].sort((a, b) => a.name.localeCompare(b.name));
+    case 'library':
+    default:
+      return visible;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Queue Jobs
+ *
+ * Every set that gets queued is a job. Jobs line up behind each other
+ * ("Liked Songs, then Focus") and stay around afterwards as a short history.
+ *
+ * Only one job runs at a time: the background queue service starts the next
+ * pending job when the current one ends. Live progress of the running job
+ * lives in the service's task state - job records are only written on
+ * status changes.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const QUEUE_JOBS_KEY = 'queue_jobs';
+const MAX_FINISHED_JOBS = 20;
+
+export type QueueJobStatus = 'pending' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+  id: string;
+  playlistId: string;
+  playlistName: string;
+  status: QueueJobStatus;
+  totalTracks: number;          // Tracks in the set, including a first track that was played directly
+  queuedTracks: number;         // Tracks that reached Spotify (updated on status changes)
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;               // Why the job failed
+  trackUris?: string[];         // Only while pending - the set waiting for its turn
+  stats?: {
+    remaining: number;
+    addedTracks?: number;
+    setSizeLabel?: string;
+  };
+}
+
+/**
+ * Whether a job has reached a final status
+ */
+export function isFinishedJob(job: QueueJob): boolean {
+  return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+// Job updates come from the queue service and the UI at the same time,
+// so read-modify-write cycles are chained to avoid losing updates
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function withJobs<T>(update: (jobs: QueueJob[]) => { jobs: QueueJob[]; result: T }): Promise<T> {
+  const run = writeChain.then(async () => {
+    const { jobs, result } = update(await getQueueJobs());
+    await saveQueueJobs(jobs);
+    return result;
+  });
+  writeChain = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Get all jobs, oldest first
+ */
+export async function getQueueJobs(): Promise<QueueJob[]> {
+  try {
+    const json = await AsyncStorage.getItem(QUEUE_JOBS_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('[QueueJobs] Failed to get jobs:', error);
+    return [];
+  }
+}
+
+/**
+ * Save jobs, keeping only the most recent finished ones
+ */
+async function saveQueueJobs(jobs: QueueJob[]): Promise<void> {
+  const finished = jobs.filter(isFinishedJob);
+  const dropped = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+
+  try {
+    await AsyncStorage.setItem(QUEUE_JOBS_KEY, JSON.stringify(jobs.filter(job => !dropped.has(job))));
+  } catch (error) {
+    console.error('[QueueJobs] Failed to save jobs:', error);
+  }
+}
+
+/**
+ * Create a job
+ * Running jobs get their startedAt right away; pending ones when their turn comes.
+ */
+export async function createQueueJob(
+  params: Pick<QueueJob, 'playlistId' | 'playlistName' | 'status' | 'totalTracks' | 'trackUris' | 'stats'>
+): Promise<QueueJob> {
+  const now = Date.now();
+  const job: QueueJob = {
+    ...params,
+    id: `job:${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    queuedTracks: 0,
+    createdAt: now,
+    startedAt: params.status === 'running' ? now : undefined,
+  };
+
+  return await withJobs(jobs => ({ jobs: [...jobs, job], result: job }));
+}
+
+/**
+ * Update a job's fields
+ *
+ * @returns The updated job, or null if it no longer exists
+ */
+export async function updateQueueJob(jobId: string, changes: Partial<Omit<QueueJob, 'id'>>): Promise<QueueJob | null> {
+  return await withJobs(jobs => {
+    const index = jobs.findIndex(job => job.id === jobId);
+    if (index === -1) return { jobs, result: null };
+
+    const updated = { ...jobs[index], ...changes };
+    const next = [...jobs];
+    next[index] = updated;
+    return { jobs: next, result: updated };
+  });
+}
+
+/**
+ * Get a single job by ID
+ */
+export async function getQueueJob(jobId: string): Promise<QueueJob | null> {
+  const jobs = await getQueueJobs();
+  return jobs.find(job => job.id === jobId) ?? null;
+}
+
+/**
+ * Get the pending job that has waited the longest
+ */
+export async function getNextPendingJob(): Promise<QueueJob | null> {
+  const jobs = await getQueueJobs();
+  return jobs.find(job => job.status === 'pending') ?? null;
+}
+
+/**
+ * Remove finished jobs from the history
+ */
+export async function clearFinishedJobs(): Promise<void> {
+  await withJobs(jobs => ({ jobs: jobs.filter(job => !isFinishedJob(job)), result: undefined }));
+}
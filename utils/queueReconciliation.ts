@@ -0,0 +1,123 @@
+/**
+ * Queue Reconciliation
+ *
+ * Compares a set Flux queued with what actually sits in the user's Spotify
+ * queue. Spotify occasionally drops queued tracks (unavailable in the market,
+ * rate limits that swallowed an add), and users can remove or reorder tracks
+ * from the Spotify app - neither is visible from the add-to-queue responses.
+ *
+ * Spotify only returns the next ~20 queue items, so a set can only be checked
+ * as far as the visible window reaches. Tracks beyond the window are neither
+ * counted as landed nor as missing.
+ */
+
+import { SpotifyService } from './spotify';
+import type { SpotifyQueue } from '@/types/spotify';
+
+// Items /me/player/queue returns at most - a shorter queue is shown in full
+const QUEUE_WINDOW_SIZE = 20;
+
+/**
+ * Outcome of checking a set against the Spotify queue
+ */
+export interface QueueReconciliationReport {
+  checkedAt: number;
+  checked: number;              // Upcoming set tracks the visible queue could confirm or rule out
+  landed: number;               // Checked tracks found in the queue
+  missing: number;              // Checked tracks not in the queue (dropped by Spotify or removed by the user)
+  outOfOrder: number;           // Landed tracks that play earlier than expected
+  foreign: number;              // Other items ahead of or between the set's tracks
+}
+
+export interface QueueReconciliation {
+  report: QueueReconciliationReport;
+  missingUris: string[];
+}
+
+/**
+ * Compare the upcoming part of a set with the Spotify queue
+ *
+ * @param setUris - The whole set in play order (including a first track that was played directly)
+ * @param queue - The user's queue
+ */
+export function compareQueue(setUris: string[], queue: SpotifyQueue): QueueReconciliation {
+  // Tracks up to the one playing have already left the queue
+  const playingIndex = queue.currently_playing ? setUris.indexOf(queue.currently_playing.uri) : -1;
+  const upcoming = setUris.slice(playingIndex + 1);
+  const positions = new Map(upcoming.map((uri, index) => [uri, index]));
+  const queueUris = (queue.queue ?? []).map(item => item.uri);
+
+  let lastSeen = -1;
+  let outOfOrder = 0;
+  let foreign = 0;
+  let pendingForeign = 0; // Foreign items only count once one of our tracks follows them
+  const seen = new Set<string>();
+
+  for (const uri of queueUris) {
+    const position = positions.get(uri);
+    if (position === undefined || seen.has(uri)) {
+      pendingForeign++;
+      continue;
+    }
+
+    seen.add(uri);
+    foreign += pendingForeign;
+    pendingForeign = 0;
+
+    if (position < lastSeen) {
+      outOfOrder++;
+    } else {
+      lastSeen = position;
+    }
+  }
+
+  // A short queue is fully visible; a full window only vouches for tracks up to the last one seen
+  const checked = queueUris.length < QUEUE_WINDOW_SIZE ? upcoming.length : lastSeen + 1;
+  const missingUris = upcoming.slice(0, checked).filter(uri => !seen.has(uri));
+
+  return {
+    report: {
+      checkedAt: Date.now(),
+      checked,
+      landed: checked - missingUris.length,
+      missing: missingUris.length,
+      outOfOrder,
+      foreign,
+    },
+    missingUris,
+  };
+}
+
+/**
+ * Fetch the user's queue and compare it with a set
+ *
+ * @returns The comparison, or null if the queue could not be read
+ */
+export async function reconcileQueue(setUris: string[]): Promise<QueueReconciliation | null> {
+  try {
+    const queue = await SpotifyService.getUserQueue();
+    if (!queue) {
+      return null;
+    }
+
+    return compareQueue(setUris, queue);
+  } catch (error) {
+    console.error('[QueueReconciliation] Failed to read the Spotify queue:', error);
+    return null;
+  }
+}
+
+/**
+ * One-line summary for the UI, e.g. "18 of 20 landed in order • 2 missing"
+ */
+export function describeQueueReport(report: QueueReconciliationReport): string {
+  if (report.checked === 0) {
+    return 'Nothing left to check';
+  }
+
+  const parts = [`${report.landed - report.outOfOrder} of ${report.checked} landed in order`];
+  if (report.missing > 0) parts.push(`${report.missing} missing`);
+  if (report.outOfOrder > 0) parts.push(`${report.outOfOrder} moved`);
+  if (report.foreign > 0) parts.push(`${report.foreign} other item${report.foreign === 1 ? '' : 's'} mixed in`);
+  return parts.join(' • ');
+}
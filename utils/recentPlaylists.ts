@@ -1,11 +1,11 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const RECENT_PLAYLISTS_KEY = 'recent_playlists';
-const MAX_RECENT_PLAYLISTS = 10;
+const MAX_RECENT_PLAYLISTS = 50; // Enough to sort the home screen by recently shuffled
 
 /**
  * Add a playlist to the recent playlists list
- * Maintains a maximum of 10 recent playlists, most recent first
+ * Maintains a maximum of 50 recent playlists, most recent first
  */
 export async function addRecentPlaylist(playlistId: string): Promise<void> {
   try {
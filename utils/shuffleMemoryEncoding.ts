@@ -0,0 +1,156 @@
+/**
+ * Shuffle Memory Encoding
+ *
+ * Compact stored form of the tracks played in a cycle. Instead of a JSON array
+ * of track IDs (~25 bytes per played track), played tracks are a bitset over
+ * the playlist's ordered track index: bit i is set once trackIds[i] has been
+ * played. A 10,000-track playlist takes 1,250 bytes (1,668 as base64) however
+ * much of it was heard.
+ *
+ * The track index only changes when the playlist does, so smartShuffle stores
+ * it under its own key and doesn't rewrite it on every mark and rollback.
+ * Played IDs that aren't in the index (legacy memory without one) are kept as
+ * a plain list next to the bits.
+ *
+ * No storage access here, so scripts/benchmarkShuffleMemory.ts can run it
+ * under Node.
+ */
+
+export interface EncodedPlayedTracks {
+  playedBits: string;           // Base64 bitset over the track index
+  extraPlayedIds?: string[];    // Played IDs missing from the index (omitted when empty)
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_LOOKUP = (() => {
+  const lookup = new Uint8Array(128);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  return lookup;
+})();
+
+/**
+ * Position of each track in an index, built once per index array
+ * Loaded memory shares its cached index array, so repeated saves of the same
+ * playlist only pay for the lookups.
+ */
+const positionsCache = new WeakMap<string[], Map<string, number>>();
+
+// ============================================================================
+// Base64
+// ============================================================================
+
+// Hand-rolled rather than btoa/atob, which only handle binary strings and
+// aren't available in every JS runtime the app (and the benchmark) runs on
+function bytesToBase64(bytes: Uint8Array): string {
+  const chars: string[] = [];
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    chars.push(
+      BASE64_ALPHABET[b0 >> 2],
+      BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)],
+      i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=',
+      i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 0x3f] : '='
+    );
+  }
+
+  return chars.join('');
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = new Uint8Array((base64.length / 4) * 3 - padding);
+
+  let byteIndex = 0;
+  for (let i = 0; i < base64.length; i += 4) {
+    const c0 = BASE64_LOOKUP[base64.charCodeAt(i)];
+    const c1 = BASE64_LOOKUP[base64.charCodeAt(i + 1)];
+    const c2 = BASE64_LOOKUP[base64.charCodeAt(i + 2)];
+    const c3 = BASE64_LOOKUP[base64.charCodeAt(i + 3)];
+
+    bytes[byteIndex++] = (c0 << 2) | (c1 >> 4);
+    if (byteIndex < bytes.length) bytes[byteIndex++] = ((c1 & 0x0f) << 4) | (c2 >> 2);
+    if (byteIndex < bytes.length) bytes[byteIndex++] = ((c2 & 0x03) << 6) | c3;
+  }
+
+  return bytes;
+}
+
+// ============================================================================
+// Played Tracks
+// ============================================================================
+
+function getTrackPositions(trackIds: string[]): Map<string, number> {
+  let positions = positionsCache.get(trackIds);
+
+  if (!positions) {
+    positions = new Map();
+    // Keep the first position of a track listed twice, so decoding never yields it twice
+    for (let i = trackIds.length - 1; i >= 0; i--) {
+      positions.set(trackIds[i], i);
+    }
+    positionsCache.set(trackIds, positions);
+  }
+
+  return positions;
+}
+
+/**
+ * Encode played track IDs as a bitset over the track index
+ *
+ * @param trackIds - Ordered track index (absent in legacy memory)
+ * @param playedTrackIds - Played IDs in any order
+ */
+export function encodePlayedTrackIds(
+  trackIds: string[] | undefined,
+  playedTrackIds: string[]
+): EncodedPlayedTracks {
+  const positions = trackIds ? getTrackPositions(trackIds) : new Map<string, number>();
+  const bits = new Uint8Array(Math.ceil((trackIds?.length ?? 0) / 8));
+  const extraPlayedIds: string[] = [];
+
+  for (const id of playedTrackIds) {
+    const position = positions.get(id);
+    if (position === undefined) {
+      extraPlayedIds.push(id);
+    } else {
+      bits[position >> 3] |= 1 << (position & 7);
+    }
+  }
+
+  return extraPlayedIds.length > 0
+    ? { playedBits: bytesToBase64(bits), extraPlayedIds }
+    : { playedBits: bytesToBase64(bits) };
+}
+
+/**
+ * Decode played track IDs against the track index they were encoded with
+ * IDs come back in index order, followed by any that weren't in the index.
+ */
+export function decodePlayedTrackIds(
+  trackIds: string[] | undefined,
+  encoded: EncodedPlayedTracks
+): string[] {
+  const played: string[] = [];
+  const indexIds = trackIds ?? [];
+  const bits = base64ToBytes(encoded.playedBits);
+
+  for (let byte = 0; byte < bits.length; byte++) {
+    if (bits[byte] === 0) continue;
+
+    for (let bit = 0; bit < 8; bit++) {
+      const i = (byte << 3) | bit;
+      if (i < indexIds.length && (bits[byte] & (1 << bit)) !== 0) {
+        played.push(indexIds[i]);
+      }
+    }
+  }
+
+  return encoded.extraPlayedIds ? played.concat(encoded.extraPlayedIds) : played;
+}
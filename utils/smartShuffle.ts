@@ -6,14 +6,32 @@
  * 
  * Features:
  * - Adaptive set sizing based on playlist size
- * - Playlist change detection (songs added/removed)
+ * - Incremental playlist change handling (songs added/removed keep cycle progress)
  * - Cycle tracking (how many times user has heard full playlist)
  * - Persistent state across app sessions
+ * - Optional artist/album spacing constraints (per-playlist settings)
+ * - Optional weighted mode - favorites surface earlier within a cycle
+ * - Optional seeded shuffles - sets can be regenerated exactly for debugging
+ * - Duplicate detection - the same recording on a single, album and compilation
+ *   counts as one song per cycle (see utils/duplicateTracks.ts)
+ * - Heard tracking - tracks count as played only once they actually played
+ *   (see services/listeningSessionMonitor.ts)
+ * - Per-playlist exclusions - excluded tracks are never drawn and don't count
+ *   toward the cycle, so it completes without them
+ * - Global blocklist - blocked artists and tracks are excluded from every
+ *   playlist (see utils/blocklist.ts)
+ * - Compact storage - played tracks are stored as a bitset over the track
+ *   index, so marking tracks on huge playlists stays cheap
+ *   (see utils/shuffleMemoryEncoding.ts)
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { trueRandomShuffle } from './spotify';
+import { trueRandomShuffle, getSecureRandom, createSeededRandom, generateShuffleSeed } from './spotify';
 import type { SpotifyTrack } from '@/types/spotify';
+import { getBlocklist, getBlockedTrackIds } from './blocklist';
+import { groupDuplicateTracks } from './duplicateTracks';
+import type { QueueReconciliationReport } from './queueReconciliation';
+import { encodePlayedTrackIds, decodePlayedTrackIds, type EncodedPlayedTracks } from './shuffleMemoryEncoding';
 
 // ============================================================================
 // Types & Interfaces
@@ -21,6 +39,7 @@ import type { SpotifyTrack } from '@/types/spotify';
 
 /**
  * Memory state stored for each playlist
+ * This is the loaded shape - see StoredShuffleMemory for how it's written.
  */
 interface ShuffleMemory {
   playlistId: string;
@@ -29,6 +48,59 @@ interface ShuffleMemory {
   cycleNumber: number;          // How many complete cycles through the playlist
   totalTracks: number;          // Total tracks in playlist when last shuffled
   lastUpdated: number;          // Timestamp of last shuffle
+  trackIds?: string[];          // Track IDs in playlist when last shuffled (for diffing, absent in legacy memory)
+  lastChanges?: PlaylistChanges; // Most recent change detected between two shuffles
+  lastSpacingReport?: SpacingReport; // How well spacing constraints were met in the last set
+  lastQueueReport?: QueueReconciliationReport; // How the last queued set matched the Spotify queue
+  setHistory?: ShuffleSetRecord[]; // Recent seeded sets, newest first
+  duplicateGroups?: string[][]; // Track IDs of the same song under different IDs (only groups of 2+)
+  blockedTrackIds?: string[];   // Tracks the global blocklist kept out of the last shuffle (for progress)
+}
+
+/**
+ * Shuffle memory as written to storage
+ * playedTrackIds is encoded as a bitset over trackIds, and trackIds is stored
+ * separately (StoredTrackIndex) because it only changes with the playlist.
+ * Memory without a `format` field is the original layout - a ShuffleMemory
+ * as is - and is rewritten in this format on its next save.
+ */
+type StoredShuffleMemory = Omit<ShuffleMemory, 'playedTrackIds' | 'trackIds'> & EncodedPlayedTracks & {
+  format: typeof MEMORY_FORMAT;
+};
+
+/**
+ * Ordered track IDs the played bitset is encoded against
+ */
+interface StoredTrackIndex {
+  playlistHash: string;         // Hash of the memory it was written with, to catch mismatches
+  trackIds: string[];
+}
+
+/**
+ * Everything needed to regenerate a seeded set
+ * Recent records keep the set's tracks, so replaying them is exact even after
+ * some were heard. Older ones are regenerated from the seed with the recorded
+ * mode, spacing, size and weighting time, which is exact only against the same
+ * unplayed pool (same poolHash).
+ */
+export interface ShuffleSetRecord {
+  seed: number;
+  createdAt: number;            // Also the time recency weights were computed at
+  cycleNumber: number;
+  poolHash: string;             // Fingerprint of the unplayed pool the set was drawn from
+  mode: ShuffleMode;
+  spacing: SpacingConstraints | null;
+  setSize?: SetSizeStrategy;    // Absent in records from before sizes were kept
+  trackIds?: string[];          // The set in order, kept for the newest MAX_REPLAYABLE_SETS records
+}
+
+/**
+ * Changes detected in a playlist between two shuffles
+ */
+export interface PlaylistChanges {
+  added: number;                // Tracks added since last shuffle (start unplayed)
+  removed: number;              // Tracks removed since last shuffle
+  detectedAt: number;           // Timestamp when the change was detected
 }
 
 /**
@@ -40,6 +112,7 @@ export interface ShuffleStats {
   cycleComplete: boolean;       // Whether cycle just completed (all songs played)
   cycleNumber: number;          // Current cycle number
   percentage: number;           // Percentage of playlist heard (0-100)
+  changes?: PlaylistChanges;    // Playlist changes detected by this shuffle, if any
 }
 
 /**
@@ -48,6 +121,92 @@ export interface ShuffleStats {
 export interface SmartShuffleResult {
   tracks: SpotifyTrack[];       // Shuffled tracks to queue
   stats: ShuffleStats;          // Current shuffle statistics
+  setSize: SetSizeStrategy;     // Strategy that sized this set
+  spacing?: SpacingReport;      // Present when spacing constraints were applied
+  seed?: number;                // Present when the set was generated from a seed
+}
+
+/**
+ * Minimum spacing between related tracks in a shuffled set
+ * A gap of N means at least N other tracks must play in between. 0 disables the constraint.
+ */
+export interface SpacingConstraints {
+  minArtistGap: number;         // Gap between tracks sharing an artist
+  minAlbumGap: number;          // Gap between tracks from the same album
+}
+
+/**
+ * How well spacing constraints were met for a shuffled order
+ */
+export interface SpacingReport {
+  placed: number;               // Tracks placed in the spaced order
+  violations: number;           // Placements that had to break a constraint
+  satisfiedPercentage: number;  // Placements that met all constraints (0-100)
+}
+
+/**
+ * How unplayed tracks are ordered within a cycle
+ * - random: uniform Fisher-Yates order
+ * - weighted: higher-weight tracks tend to come earlier (still no repeats)
+ */
+export type ShuffleMode = 'random' | 'weighted';
+
+/**
+ * How many tracks go into one set
+ * - adaptive: split the playlist into 1-4+ sets depending on its size
+ * - fixed: a fixed number of tracks
+ * - duration: enough tracks to fill a target listening time
+ * - cycle: everything that is left in the current cycle
+ */
+export type SetSizeStrategy =
+  | { type: 'adaptive' }
+  | { type: 'fixed'; trackCount: number }
+  | { type: 'duration'; minutes: number }
+  | { type: 'cycle' };
+
+/**
+ * How a set reaches the Spotify queue
+ * - batch: the whole set is queued right away
+ * - drip: only bufferSize upcoming tracks are queued; the next one is added as
+ *   each track starts playing, and new unplayed tracks are drawn when the set runs out
+ */
+export type QueueMode =
+  | { type: 'batch' }
+  | { type: 'drip'; bufferSize: number };
+
+/**
+ * How playback of a new set starts
+ * - queue: play the first track, then add the rest to the queue one request per track
+ * - fast-start: hand the set to Spotify in the play request itself (up to the
+ *   request size limit) and only queue what didn't fit
+ */
+export type StartStrategy = 'queue' | 'fast-start';
+
+/**
+ * Per-playlist shuffle settings, persisted next to shuffle memory
+ */
+export interface ShuffleSettings {
+  spacing: SpacingConstraints | null; // null = plain Fisher-Yates order
+  mode: ShuffleMode;
+  setSize: SetSizeStrategy;
+  dedupe: boolean;                    // Treat the same song under different IDs as one
+  pinnedTrackIds: string[];           // Manually pinned favorites (weighted mode)
+  reproducible: boolean;              // Use a recorded seed instead of crypto randomness
+  queueMode: QueueMode;
+  startStrategy: StartStrategy;
+}
+
+/**
+ * Options for a single smart shuffle call
+ * Anything left undefined falls back to the playlist's saved settings
+ */
+export interface SmartShuffleOptions {
+  spacing?: SpacingConstraints | null;
+  mode?: ShuffleMode;
+  likedTrackIds?: string[];     // User's liked songs, boosted in weighted mode
+  seed?: number;                // Replay a recorded seed (implies a seeded shuffle)
+  setSize?: SetSizeStrategy;    // One-off set size (e.g. a timed session)
+  excludeTrackIds?: string[];   // Tracks already on their way to Spotify (drip-feed top-ups, lined-up sets)
 }
 
 // ============================================================================
@@ -56,17 +215,114 @@ export interface SmartShuffleResult {
 
 const STORAGE_PREFIX = 'smart_shuffle_';
 
+// Deliberately NOT under STORAGE_PREFIX, so settings are not mistaken for memory
+const SETTINGS_STORAGE_PREFIX = 'shuffle_settings_';
+
+// Excluded track IDs per playlist - also kept out of STORAGE_PREFIX
+const EXCLUSIONS_STORAGE_PREFIX = 'shuffle_exclusions_';
+
+// Track index the played bitset is encoded against - also kept out of STORAGE_PREFIX
+const TRACK_INDEX_STORAGE_PREFIX = 'shuffle_track_index_';
+
+// Version of StoredShuffleMemory
+const MEMORY_FORMAT = 2;
+
+export const DEFAULT_SHUFFLE_SETTINGS: ShuffleSettings = {
+  spacing: null,
+  mode: 'random',
+  setSize: { type: 'adaptive' },
+  dedupe: true,
+  pinnedTrackIds: [],
+  reproducible: false,
+  queueMode: { type: 'batch' },
+  startStrategy: 'queue',
+};
+
+// Number of seeded set records kept per playlist
+const MAX_SET_HISTORY = 10;
+
+// Newest set records that keep their tracks - the rest only keep what's needed to regenerate them
+const MAX_REPLAYABLE_SETS = 3;
+
 /**
- * In-memory lock to prevent race conditions during concurrent shuffle operations
- * Maps playlist ID to a promise that resolves when the operation completes
+ * Weighted mode multipliers
+ * A track's weight is the product of the boosts that apply to it (base weight 1)
  */
-const shuffleLocks = new Map<string, Promise<any>>();
+const PINNED_WEIGHT = 4;
+const LIKED_WEIGHT = 2;
+const RECENCY_WINDOW_DAYS = 90; // Added today: ×2, fades linearly to ×1 over 90 days
+
+// Duration sets stop filling once they are this close to the target
+const DURATION_FIT_TOLERANCE_MS = 30 * 1000;
+
+/**
+ * How many upcoming candidates the spaced shuffle inspects per position
+ * Bounds the cost to O(n × lookahead) even when constraints can't be met
+ */
+const SPACING_LOOKAHEAD = 50;
+
+/**
+ * In-memory lock to prevent race conditions between operations on a playlist's memory
+ * Maps playlist ID to a promise that resolves when the last queued operation completes
+ * (see acquirePlaylistLock)
+ */
+const shuffleLocks = new Map<string, Promise<void>>();
+
+/**
+ * Last track index read or written per playlist
+ * Lets marks and rollbacks skip re-reading and rewriting an unchanged index
+ */
+const trackIndexCache = new Map<string, StoredTrackIndex>();
 
 /**
  * Get AsyncStorage key for a playlist
+ * Works for every track source - non-playlist IDs carry a per-kind prefix (see utils/trackSources)
  */
 const getStorageKey = (playlistId: string): string => `${STORAGE_PREFIX}${playlistId}`;
 
+/**
+ * Get AsyncStorage key for a playlist's shuffle settings
+ */
+const getSettingsStorageKey = (playlistId: string): string => `${SETTINGS_STORAGE_PREFIX}${playlistId}`;
+
+/**
+ * Get AsyncStorage key for a playlist's excluded tracks
+ */
+const getExclusionsStorageKey = (playlistId: string): string => `${EXCLUSIONS_STORAGE_PREFIX}${playlistId}`;
+
+/**
+ * Get AsyncStorage key for a playlist's track index
+ */
+const getTrackIndexStorageKey = (playlistId: string): string => `${TRACK_INDEX_STORAGE_PREFIX}${playlistId}`;
+
+/**
+ * Wait for a playlist's lock and take it
+ * Shuffles, marks and rollbacks all read, modify and save the whole memory, so
+ * they take turns in call order - otherwise a shuffle saving after an await
+ * could overwrite a track marked heard in the meantime.
+ *
+ * @returns Releases the lock - call it exactly once, in a finally
+ */
+async function acquirePlaylistLock(playlistId: string): Promise<() => void> {
+  const previous = shuffleLocks.get(playlistId) ?? Promise.resolve();
+
+  let release!: () => void;
+  const current = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  shuffleLocks.set(playlistId, current);
+
+  await previous;
+
+  return () => {
+    release();
+    // Later callers already chained onto this promise keep their own entry
+    if (shuffleLocks.get(playlistId) === current) {
+      shuffleLocks.delete(playlistId);
+    }
+  };
+}
+
 // ============================================================================
 // Core Functions
 // ============================================================================
@@ -203,8 +459,219 @@ function generatePlaylistHash(tracks: SpotifyTrack[]): string {
   return `${tracks.length}_${contentHash}`;
 }
 
+// ============================================================================
+// Spacing Functions
+// ============================================================================
+
+/**
+ * Keys used to detect "same artist" and "same album"
+ * Albums fall back to name + primary artist when no ID is available
+ */
+function getArtistKeys(track: SpotifyTrack): string[] {
+  return track.artists.map(artist => artist.name.toLowerCase());
+}
+
+function getAlbumKey(track: SpotifyTrack): string {
+  return track.album.id || `${track.album.name}|${track.artists[0]?.name ?? ''}`.toLowerCase();
+}
+
+/**
+ * Reorder tracks to keep related tracks apart
+ *
+ * Strategy (greedy with bounded lookahead):
+ * 1. Start from the given order (random or weighted)
+ * 2. For each position, take the first upcoming candidate that satisfies
+ *    both the artist and album gap
+ * 3. If none of the next SPACING_LOOKAHEAD candidates fits (e.g. a playlist
+ *    dominated by one artist), take the candidate that breaks the constraints
+ *    the least and count it as a violation
+ *
+ * Every input track appears exactly once in the output, so spacing never
+ * affects which tracks are eligible - only their order.
+ */
+function applySpacing(
+  tracks: SpotifyTrack[],
+  constraints: SpacingConstraints
+): { tracks: SpotifyTrack[]; report: SpacingReport } {
+  const pool = [...tracks];
+  const ordered: SpotifyTrack[] = [];
+  const lastArtistPosition = new Map<string, number>();
+  const lastAlbumPosition = new Map<string, number>();
+  let violations = 0;
+
+  // How much slack a candidate has at the given position (>= 0 means constraints are met)
+  const getSlack = (track: SpotifyTrack, position: number): number => {
+    let slack = Infinity;
+
+    if (constraints.minArtistGap > 0) {
+      for (const artistKey of getArtistKeys(track)) {
+        const lastPosition = lastArtistPosition.get(artistKey);
+        if (lastPosition !== undefined) {
+          slack = Math.min(slack, (position - lastPosition - 1) - constraints.minArtistGap);
+        }
+      }
+    }
+
+    if (constraints.minAlbumGap > 0) {
+      const lastPosition = lastAlbumPosition.get(getAlbumKey(track));
+      if (lastPosition !== undefined) {
+        slack = Math.min(slack, (position - lastPosition - 1) - constraints.minAlbumGap);
+      }
+    }
+
+    return slack;
+  };
+
+  while (pool.length > 0) {
+    const position = ordered.length;
+    const lookahead = Math.min(pool.length, SPACING_LOOKAHEAD);
+
+    let pickIndex = -1;
+    let bestIndex = 0;
+    let bestSlack = -Infinity;
+
+    for (let i = 0; i < lookahead; i++) {
+      const slack = getSlack(pool[i], position);
+      if (slack >= 0) {
+        pickIndex = i;
+        break;
+      }
+      if (slack > bestSlack) {
+        bestSlack = slack;
+        bestIndex = i;
+      }
+    }
+
+    // Graceful fallback: nothing fits, use the least-bad candidate
+    if (pickIndex === -1) {
+      pickIndex = bestIndex;
+      violations++;
+    }
+
+    const [track] = pool.splice(pickIndex, 1);
+    for (const artistKey of getArtistKeys(track)) {
+      lastArtistPosition.set(artistKey, position);
+    }
+    lastAlbumPosition.set(getAlbumKey(track), position);
+    ordered.push(track);
+  }
+
+  return {
+    tracks: ordered,
+    report: {
+      placed: ordered.length,
+      violations,
+      satisfiedPercentage: ordered.length > 0
+        ? Math.round(((ordered.length - violations) / ordered.length) * 100)
+        : 100,
+    },
+  };
+}
+
+/**
+ * Check whether spacing constraints would change anything
+ */
+function hasActiveSpacing(spacing: SpacingConstraints | null | undefined): spacing is SpacingConstraints {
+  return !!spacing && (spacing.minArtistGap > 0 || spacing.minAlbumGap > 0);
+}
+
+// ============================================================================
+// Duplicate Counting
+// ============================================================================
+
+/**
+ * Count played songs and total songs, treating each duplicate group as one song
+ * Excluded tracks are left out of both counts.
+ */
+function countWithDuplicates(
+  playedTrackIds: string[],
+  totalTracks: number,
+  duplicateGroups: string[][] = [],
+  excludedTrackIds: string[] = []
+): { played: number; total: number } {
+  const excluded = new Set(excludedTrackIds);
+  const playedSet = new Set(playedTrackIds.filter(id => !excluded.has(id)));
+  let played = playedSet.size;
+  let total = totalTracks - excluded.size;
+
+  for (const group of duplicateGroups) {
+    const members = group.filter(id => !excluded.has(id));
+    if (members.length === 0) continue;
+
+    const playedInGroup = members.filter(id => playedSet.has(id)).length;
+    played -= Math.max(0, playedInGroup - 1);
+    total -= members.length - 1;
+  }
+
+  return { played, total: Math.max(total, 0) };
+}
+
+// ============================================================================
+// Weighting Functions
+// ============================================================================
+
+/**
+ * Calculate the selection weight of a track
+ *
+ * Boosts (multiplied together):
+ * - Manually pinned: ×4
+ * - In the user's liked songs: ×2
+ * - Recently added (added_at): up to ×2, fading out over RECENCY_WINDOW_DAYS
+ */
+function getTrackWeight(
+  track: SpotifyTrack,
+  pinnedIds: Set<string>,
+  likedIds: Set<string>,
+  now: number
+): number {
+  let weight = 1;
+
+  if (pinnedIds.has(track.id)) {
+    weight *= PINNED_WEIGHT;
+  }
+
+  if (likedIds.has(track.id)) {
+    weight *= LIKED_WEIGHT;
+  }
+
+  if (track.added_at) {
+    const ageDays = (now - new Date(track.added_at).getTime()) / (24 * 60 * 60 * 1000);
+    if (Number.isFinite(ageDays)) {
+      weight *= 1 + Math.max(0, 1 - Math.max(0, ageDays) / RECENCY_WINDOW_DAYS);
+    }
+  }
+
+  return weight;
+}
+
+/**
+ * Weighted random order (Efraimidis-Spirakis)
+ *
+ * Each track gets the key u^(1/weight) with u uniform in (0, 1), then tracks
+ * are sorted by key descending. Heavier tracks tend to come first, but every
+ * track still appears exactly once - weighting only biases order, never
+ * eligibility, so the no-repeat guarantee is untouched.
+ */
+function weightedShuffle(
+  tracks: SpotifyTrack[],
+  pinnedIds: Set<string>,
+  likedIds: Set<string>,
+  random: () => number = getSecureRandom,
+  now: number = Date.now()
+): SpotifyTrack[] {
+  return tracks
+    .map(track => {
+      const weight = getTrackWeight(track, pinnedIds, likedIds, now);
+      // Guard against u = 0, which would give every weight the same key
+      const u = Math.max(random(), Number.EPSILON);
+      return { track, key: Math.pow(u, 1 / weight) };
+    })
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.track);
+}
+
 /**
- * Calculate optimal set size based on playlist size
+ * Calculate adaptive set size based on playlist size
  * Strategy:
  * - Small playlists (≤150): Queue everything
  * - Medium playlists (≤500): Split into 2 sets
@@ -227,6 +694,116 @@ function calculateOptimalSetSize(totalTracks: number): number {
   }
 }
 
+/**
+ * Build a set that lands as close as possible to a target duration
+ *
+ * Algorithm (best-fit over the shuffled order):
+ * 1. Walk the ordered pool and take every track that still fits in the remaining time
+ * 2. Stop once the remaining gap is below DURATION_FIT_TOLERANCE_MS
+ * 3. If the set still ends short, add the one skipped track that brings the
+ *    total closest to the target (slight overshoot beats a long undershoot)
+ *
+ * Tracks keep their shuffled order, so the set is still random - skipped tracks
+ * simply stay unplayed for a later set.
+ *
+ * @param orderedTracks - Unplayed tracks in shuffled order
+ * @param targetMs - Target listening time in milliseconds
+ */
+export function buildDurationSet(orderedTracks: SpotifyTrack[], targetMs: number): SpotifyTrack[] {
+  const selected: SpotifyTrack[] = [];
+  const skipped: SpotifyTrack[] = [];
+  let totalMs = 0;
+
+  for (const track of orderedTracks) {
+    if (targetMs - totalMs < DURATION_FIT_TOLERANCE_MS) break;
+
+    if (totalMs + track.duration_ms <= targetMs) {
+      selected.push(track);
+      totalMs += track.duration_ms;
+    } else {
+      skipped.push(track);
+    }
+  }
+
+  // Close a remaining gap with the skipped track that lands nearest to the target
+  const gap = targetMs - totalMs;
+  if (gap >= DURATION_FIT_TOLERANCE_MS && skipped.length > 0) {
+    const closest = skipped.reduce((best, track) =>
+      Math.abs(track.duration_ms - gap) < Math.abs(best.duration_ms - gap) ? track : best
+    );
+
+    if (Math.abs(closest.duration_ms - gap) < gap) {
+      selected.push(closest);
+    }
+  }
+
+  // Every track is longer than the target - still return something to play
+  if (selected.length === 0 && orderedTracks.length > 0) {
+    selected.push(orderedTracks[0]);
+  }
+
+  return selected;
+}
+
+/**
+ * Select the tracks of a set according to a set size strategy
+ *
+ * @param orderedUnplayed - Unplayed tracks in the order they will be queued
+ * @returns The set, in queue order (at least 1 track when the pool isn't empty)
+ */
+export function selectSetTracks(
+  strategy: SetSizeStrategy,
+  totalTracks: number,
+  orderedUnplayed: SpotifyTrack[]
+): SpotifyTrack[] {
+  let size: number;
+
+  switch (strategy.type) {
+    case 'duration':
+      return buildDurationSet(orderedUnplayed, strategy.minutes * 60 * 1000);
+    case 'fixed':
+      size = strategy.trackCount;
+      break;
+    case 'cycle':
+      size = orderedUnplayed.length;
+      break;
+    case 'adaptive':
+    default:
+      size = calculateOptimalSetSize(totalTracks);
+      break;
+  }
+
+  return orderedUnplayed.slice(0, Math.max(1, size));
+}
+
+/**
+ * Short human-readable description of a set size strategy (for notifications and settings)
+ */
+export function describeSetSizeStrategy(strategy: SetSizeStrategy): string {
+  switch (strategy.type) {
+    case 'fixed':
+      return `${strategy.trackCount}-track set`;
+    case 'duration':
+      return strategy.minutes >= 60 && strategy.minutes % 60 === 0
+        ? `${strategy.minutes / 60}h set`
+        : `${strategy.minutes} min set`;
+    case 'cycle':
+      return 'rest of cycle';
+    case 'adaptive':
+    default:
+      return 'adaptive set';
+  }
+}
+
+/**
+ * Short human-readable description of a queue mode (for notifications and settings)
+ */
+export function describeQueueMode(queueMode: QueueMode): string {
+  return queueMode.type === 'drip'
+    ? `drip-feed, ${queueMode.bufferSize} tracks ahead`
+    : 'whole set at once';
+}
+
 /**
  * Load shuffle memory from AsyncStorage
  * Returns null if no memory exists for this playlist
@@ -239,26 +816,145 @@ export async function loadShuffleMemory(playlistId: string): Promise<ShuffleMemo
       return null;
     }
 
-    const memory = JSON.parse(jsonValue) as ShuffleMemory;
-    return memory;
+    const stored = JSON.parse(jsonValue) as StoredShuffleMemory | ShuffleMemory;
+    if (!('format' in stored)) {
+      // Original layout - already a ShuffleMemory
+      return stored;
+    }
+
+    const { format: _format, playedBits, extraPlayedIds, ...rest } = stored;
+    const trackIds = (await loadTrackIndex(playlistId, stored.playlistHash))?.trackIds;
+
+    return {
+      ...rest,
+      trackIds,
+      playedTrackIds: decodePlayedTrackIds(trackIds, { playedBits, extraPlayedIds }),
+    };
   } catch (error) {
     console.error('[SmartShuffle] Error loading memory:', error);
     return null;
   }
 }
 
+/**
+ * Load the track index a memory's played bitset was encoded against
+ * Returns undefined for legacy memory without one, or if it doesn't belong to
+ * the memory (the bitset can't be decoded then, so the cycle starts over).
+ */
+async function loadTrackIndex(playlistId: string, playlistHash: string): Promise<StoredTrackIndex | undefined> {
+  const cached = trackIndexCache.get(playlistId);
+  if (cached?.playlistHash === playlistHash) {
+    return cached;
+  }
+
+  const jsonValue = await AsyncStorage.getItem(getTrackIndexStorageKey(playlistId));
+  if (jsonValue === null) {
+    return undefined;
+  }
+
+  const index = JSON.parse(jsonValue) as StoredTrackIndex;
+  if (index.playlistHash !== playlistHash) {
+    console.warn(`[SmartShuffle] Track index for ${playlistId} doesn't match its memory, ignoring it`);
+    return undefined;
+  }
+
+  trackIndexCache.set(playlistId, index);
+  return index;
+}
+
 /**
  * Save shuffle memory to AsyncStorage
+ * The track index is only rewritten when the playlist changed since it was
+ * last read or written, so marks and rollbacks write a few KB at most.
  */
 async function saveShuffleMemory(memory: ShuffleMemory): Promise<void> {
   try {
-    const jsonValue = JSON.stringify(memory);
-    await AsyncStorage.setItem(getStorageKey(memory.playlistId), jsonValue);
+    const { playedTrackIds, trackIds, ...rest } = memory;
+    const stored: StoredShuffleMemory = {
+      ...rest,
+      format: MEMORY_FORMAT,
+      ...encodePlayedTrackIds(trackIds, playedTrackIds),
+    };
+
+    const entries: [string, string][] = [[getStorageKey(memory.playlistId), JSON.stringify(stored)]];
+    const index = trackIds && trackIndexCache.get(memory.playlistId)?.playlistHash !== memory.playlistHash
+      ? { playlistHash: memory.playlistHash, trackIds }
+      : undefined;
+
+    if (index) {
+      entries.push([getTrackIndexStorageKey(memory.playlistId), JSON.stringify(index)]);
+    }
+
+    // Written together so the bitset never outlives the index it was encoded against
+    await AsyncStorage.multiSet(entries);
+
+    if (index) {
+      trackIndexCache.set(memory.playlistId, index);
+    }
   } catch (error) {
     console.error('[SmartShuffle] Error saving memory:', error);
   }
 }
 
+/**
+ * Load shuffle settings for a playlist
+ * Returns defaults if the playlist has no saved settings
+ */
+export async function loadShuffleSettings(playlistId: string): Promise<ShuffleSettings> {
+  try {
+    const jsonValue = await AsyncStorage.getItem(getSettingsStorageKey(playlistId));
+
+    if (jsonValue === null) {
+      return { ...DEFAULT_SHUFFLE_SETTINGS };
+    }
+
+    return { ...DEFAULT_SHUFFLE_SETTINGS, ...(JSON.parse(jsonValue) as Partial<ShuffleSettings>) };
+  } catch (error) {
+    console.error('[SmartShuffle] Error loading settings:', error);
+    return { ...DEFAULT_SHUFFLE_SETTINGS };
+  }
+}
+
+/**
+ * Save shuffle settings for a playlist
+ */
+export async function saveShuffleSettings(playlistId: string, settings: ShuffleSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(getSettingsStorageKey(playlistId), JSON.stringify(settings));
+  } catch (error) {
+    console.error('[SmartShuffle] Error saving settings:', error);
+  }
+}
+
+/**
+ * Load the tracks a playlist never shuffles in
+ * Returns an empty list if nothing is excluded
+ */
+export async function loadExcludedTrackIds(playlistId: string): Promise<string[]> {
+  try {
+    const jsonValue = await AsyncStorage.getItem(getExclusionsStorageKey(playlistId));
+    return jsonValue ? (JSON.parse(jsonValue) as string[]) : [];
+  } catch (error) {
+    console.error('[SmartShuffle] Error loading exclusions:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the tracks a playlist never shuffles in
+ */
+export async function saveExcludedTrackIds(playlistId: string, trackIds: string[]): Promise<void> {
+  try {
+    if (trackIds.length === 0) {
+      await AsyncStorage.removeItem(getExclusionsStorageKey(playlistId));
+    } else {
+      await AsyncStorage.setItem(getExclusionsStorageKey(playlistId), JSON.stringify(trackIds));
+    }
+  } catch (error) {
+    console.error('[SmartShuffle] Error saving exclusions:', error);
+  }
+}
+
 /**
  * Create a fresh memory state for a new playlist or cycle reset
  */
@@ -270,9 +966,55 @@ function createFreshMemory(playlistId: string, tracks: SpotifyTrack[], cycleNumb
     cycleNumber,
     totalTracks: tracks.length,
     lastUpdated: Date.now(),
+    trackIds: tracks.map(t => t.id),
   };
 }
 
+/**
+ * Apply a playlist change to existing memory without losing cycle progress
+ *
+ * Instead of resetting memory whenever the playlist hash changes:
+ * - Played IDs that are still in the playlist stay played
+ * - Newly added tracks simply start out unplayed
+ * - Removed tracks are dropped from the played list
+ * - Reorders only update the hash (nothing to diff)
+ *
+ * Legacy memory without a stored track list can only report the size difference.
+ *
+ * @returns The detected changes (also recorded on memory.lastChanges)
+ */
+function applyPlaylistDiff(memory: ShuffleMemory, tracks: SpotifyTrack[], currentHash: string): PlaylistChanges {
+  const currentIds = tracks.map(t => t.id);
+  const currentIdSet = new Set(currentIds);
+
+  let added: number;
+  let removed: number;
+
+  if (memory.trackIds) {
+    const previousIdSet = new Set(memory.trackIds);
+    added = Array.from(currentIdSet).filter(id => !previousIdSet.has(id)).length;
+    removed = Array.from(previousIdSet).filter(id => !currentIdSet.has(id)).length;
+  } else {
+    added = Math.max(0, tracks.length - memory.totalTracks);
+    removed = Math.max(0, memory.totalTracks - tracks.length);
+  }
+
+  const changes: PlaylistChanges = {
+    added,
+    removed,
+    detectedAt: Date.now(),
+  };
+
+  memory.playedTrackIds = memory.playedTrackIds.filter(id => currentIdSet.has(id));
+  memory.playlistHash = currentHash;
+  memory.trackIds = currentIds;
+  memory.totalTracks = tracks.length;
+  memory.lastChanges = changes;
+  memory.lastUpdated = Date.now();
+
+  return changes;
+}
+
 // ============================================================================
 // Main Smart Shuffle Function
 // ============================================================================
@@ -285,18 +1027,20 @@ function createFreshMemory(playlistId: string, tracks: SpotifyTrack[], cycleNumb
  * 2. Detects playlist changes
  * 3. Filters out already-played tracks
  * 4. Checks for cycle completion
- * 5. Shuffles unplayed tracks
+ * 5. Shuffles unplayed tracks (weighted and/or spaced if configured)
  * 6. Returns optimal set size
  * 7. Saves updated memory
  *
  * @param playlistId - Unique identifier for the playlist
  * @param allTracks - All tracks in the playlist
+ * @param options - Per-call overrides for the playlist's saved shuffle settings
  * @param _skipLock - Internal parameter to skip lock checking during recursion (prevents deadlock)
  * @returns Promise with shuffled tracks and statistics
  */
 export async function getSmartShuffledTracks(
   playlistId: string,
   allTracks: SpotifyTrack[],
+  options: SmartShuffleOptions = {},
   _skipLock: boolean = false
 ): Promise<SmartShuffleResult> {
 
@@ -316,24 +1060,13 @@ export async function getSmartShuffledTracks(
         cycleNumber: 0,
         percentage: 0,
       },
+      setSize: DEFAULT_SHUFFLE_SETTINGS.setSize,
     };
   }
 
-  // Race condition protection: If a shuffle is already in progress for this playlist, wait for it
-  // Skip lock checking when called recursively to prevent deadlock
-  if (!_skipLock && shuffleLocks.has(playlistId)) {
-    await shuffleLocks.get(playlistId);
-  }
-
-  // Create a promise for this operation and store it
-  // Only set lock for external calls, not recursive calls
-  let releaseLock: (() => void) | undefined;
-  if (!_skipLock) {
-    const lockPromise = new Promise<void>((resolve) => {
-      releaseLock = resolve;
-    });
-    shuffleLocks.set(playlistId, lockPromise);
-  }
+  // Race condition protection: wait for other shuffles, marks and rollbacks of this playlist
+  // Skip the lock when called recursively to prevent deadlock (we already hold it)
+  const releaseLock = _skipLock ? undefined : await acquirePlaylistLock(playlistId);
 
   try {
     // Step 1: Load existing memory or create fresh
@@ -347,13 +1080,18 @@ export async function getSmartShuffledTracks(
       await saveShuffleMemory(memory);
     }
 
-    // Step 2: Detect playlist changes (songs added/removed)
+    // Step 2: Detect playlist changes (songs added/removed/reordered)
     const currentHash = generatePlaylistHash(allTracks);
     const playlistChanged = memory.playlistHash !== currentHash;
+    let changes: PlaylistChanges | undefined;
 
     if (playlistChanged) {
-      // Reset memory but keep cycle number
-      memory = createFreshMemory(playlistId, allTracks, memory.cycleNumber);
+      // Diff against the previous track list - cycle progress is kept
+      changes = applyPlaylistDiff(memory, allTracks, currentHash);
+
+      if (changes.added > 0 || changes.removed > 0) {
+        console.log(`[SmartShuffle] Playlist changed: ${changes.added} added, ${changes.removed} removed`);
+      }
 
       // ✅ Save updated memory after playlist change detection
       await saveShuffleMemory(memory);
@@ -372,8 +1110,64 @@ export async function getSmartShuffledTracks(
     }
 
     // Step 4: Filter to get unplayed tracks (after orphan cleanup for accurate counts)
+    // With dedupe on, each duplicate group is one song: it is played as soon as any
+    // of its releases was heard, and each cycle queues the next of its releases in turn
+    const settings = await loadShuffleSettings(playlistId);
+    const allGroups = settings.dedupe ? groupDuplicateTracks(allTracks) : allTracks.map(track => [track.id]);
+    const duplicateGroups = allGroups.filter(group => group.length > 1);
+
+    if (JSON.stringify(duplicateGroups) !== JSON.stringify(memory.duplicateGroups ?? [])) {
+      memory.duplicateGroups = duplicateGroups;
+      await saveShuffleMemory(memory);
+
+      if (duplicateGroups.length > 0) {
+        console.log(`[SmartShuffle] ${duplicateGroups.length} song(s) appear under several track IDs`);
+      }
+    }
+
+    // Excluded tracks leave the pool entirely - they're never drawn and never counted
+    const excludedTrackIds = await loadExcludedTrackIds(playlistId);
+    const playlistExclusions = excludedTrackIds.filter(id => currentTrackIds.has(id));
+
+    // Forget exclusions of removed tracks, so progress counts stay right
+    if (playlistExclusions.length !== excludedTrackIds.length) {
+      await saveExcludedTrackIds(playlistId, playlistExclusions);
+    }
+
+    // Blocked artists and tracks are excluded the same way; remembered so progress can leave them out
+    const blockedTrackIds = getBlockedTrackIds(allTracks, await getBlocklist());
+    if (JSON.stringify(blockedTrackIds) !== JSON.stringify(memory.blockedTrackIds ?? [])) {
+      memory.blockedTrackIds = blockedTrackIds;
+      await saveShuffleMemory(memory);
+    }
+
+    const exclusions = new Set([...playlistExclusions, ...blockedTrackIds]);
+    const groups = exclusions.size > 0
+      ? allGroups.map(group => group.filter(id => !exclusions.has(id))).filter(group => group.length > 0)
+      : allGroups;
+
+    if (groups.length === 0) {
+      console.warn('[SmartShuffle] Every track of this playlist is excluded or blocked');
+      return {
+        tracks: [],
+        stats: {
+          played: 0,
+          remaining: 0,
+          cycleComplete: false,
+          cycleNumber: memory.cycleNumber,
+          percentage: 0,
+        },
+        setSize: settings.setSize,
+      };
+    }
+
     const playedSet = new Set(memory.playedTrackIds);
-    const unplayedTracks = allTracks.filter(track => !playedSet.has(track.id));
+    const tracksById = new Map(allTracks.map(track => [track.id, track]));
+    const songCount = groups.length;
+    const { cycleNumber } = memory;
+    const unplayedTracks = groups
+      .filter(group => !group.some(id => playedSet.has(id)))
+      .map(group => tracksById.get(group[cycleNumber % group.length])!);
 
     // Step 5: Check if cycle is complete (all songs have been played)
     if (unplayedTracks.length === 0) {
@@ -381,53 +1175,152 @@ export async function getSmartShuffledTracks(
 
       // Increment cycle counter and reset
       const newCycleNumber = memory.cycleNumber + 1;
+      const { setHistory } = memory;
       memory = createFreshMemory(playlistId, allTracks, newCycleNumber);
 
+      // Sets seeded in the last cycle can still be replayed
+      if (setHistory) {
+        memory.setHistory = setHistory;
+      }
+
       // CRITICAL: Save fresh memory to AsyncStorage BEFORE recursing
       // This prevents race conditions where the recursive call might load stale data
       await saveShuffleMemory(memory);
 
       // Recurse with fresh state to get tracks for new cycle
       // Pass _skipLock=true to prevent deadlock (we already hold the lock)
-      const result = await getSmartShuffledTracks(playlistId, allTracks, true);
+      const result = await getSmartShuffledTracks(playlistId, allTracks, options, true);
 
       // Mark that cycle was just completed
       result.stats.cycleComplete = true;
+      if (changes) {
+        result.stats.changes = changes;
+      }
 
       return result;
     }
 
-    // Step 6: Calculate how many tracks to return
-    const setSize = calculateOptimalSetSize(allTracks.length);
-    const tracksToReturn = Math.min(setSize, unplayedTracks.length);
-
-    // Step 7: Shuffle unplayed tracks using true random algorithm
-    const shuffled = trueRandomShuffle(unplayedTracks);
-    const selectedTracks = shuffled.slice(0, tracksToReturn);
-
-    // Step 8: Calculate current statistics (BEFORE marking as played)
-    // NOTE: Tracks will be marked as played AFTER successful queueing
-    // This ensures data integrity - if queueing fails, tracks won't be lost
+    // Calculate current statistics (BEFORE marking as played)
+    // NOTE: Tracks are marked as played by the listening session monitor once they
+    // actually play - skipped or never-reached tracks stay in the unplayed pool
+    // Counted in songs, so duplicate releases don't inflate the numbers
+    const playedSongs = songCount - unplayedTracks.length;
     const stats: ShuffleStats = {
-      played: memory.playedTrackIds.length,
-      remaining: allTracks.length - memory.playedTrackIds.length,
+      played: playedSongs,
+      remaining: unplayedTracks.length,
       cycleComplete: false,
       cycleNumber: memory.cycleNumber,
-      percentage: Math.round((memory.playedTrackIds.length / allTracks.length) * 100),
+      percentage: Math.round((playedSongs / songCount) * 100),
+      ...(changes && { changes }),
     };
 
+    // Replaying a recent set returns exactly its tracks - once any of them was
+    // heard, the pool differs and the seed alone would draw something else
+    const replayed = options.seed !== undefined
+      ? memory.setHistory?.find(record => record.seed === options.seed)
+      : undefined;
+
+    if (replayed?.trackIds) {
+      const replayedTracks = replayed.trackIds
+        .map(id => tracksById.get(id))
+        .filter((track): track is SpotifyTrack => track !== undefined);
+
+      if (replayedTracks.length < replayed.trackIds.length) {
+        console.warn(`[SmartShuffle] ${replayed.trackIds.length - replayedTracks.length} track(s) of set ${replayed.seed} left the playlist`);
+      }
+      console.log(`[SmartShuffle] Replaying recorded set (seed ${replayed.seed})`);
+
+      return {
+        tracks: replayedTracks,
+        stats,
+        setSize: replayed.setSize ?? settings.setSize,
+        seed: replayed.seed,
+      };
+    }
+
+    // Tracks already waiting in the Spotify queue are not drawn again. They still
+    // count as unplayed above, so the cycle only resets once they were heard
+    const excludedIds = new Set(options.excludeTrackIds ?? []);
+    const candidateTracks = excludedIds.size > 0
+      ? unplayedTracks.filter(track => !excludedIds.has(track.id))
+      : unplayedTracks;
+
+    // Step 6: Shuffle unplayed tracks using true random algorithm
+    // The whole unplayed pool is ordered (not just the set), so weighting and
+    // spacing apply across set boundaries within the cycle
+    // An older recorded set is regenerated with the mode, spacing and weighting time it was drawn with
+    const spacing = replayed
+      ? replayed.spacing
+      : options.spacing !== undefined ? options.spacing : settings.spacing;
+    const mode = replayed?.mode ?? options.mode ?? settings.mode;
+    const now = replayed?.createdAt ?? Date.now();
+
+    // Crypto randomness by default; a seeded PRNG when replaying or when the playlist asks for it
+    const seed = options.seed ?? (settings.reproducible ? generateShuffleSeed() : undefined);
+    const random = seed !== undefined ? createSeededRandom(seed) : undefined;
+
+    let shuffled: SpotifyTrack[] = mode === 'weighted'
+      ? weightedShuffle(candidateTracks, new Set(settings.pinnedTrackIds), new Set(options.likedTrackIds ?? []), random, now)
+      : trueRandomShuffle(candidateTracks, random);
+    let spacingReport: SpacingReport | undefined;
+
+    if (hasActiveSpacing(spacing)) {
+      const spaced = applySpacing(shuffled, spacing);
+      shuffled = spaced.tracks;
+      spacingReport = spaced.report;
+
+      console.log(
+        `[SmartShuffle] Spacing constraints met for ${spacingReport.satisfiedPercentage}% of tracks ` +
+        `(${spacingReport.violations} relaxed)`
+      );
+
+      memory.lastSpacingReport = spacingReport;
+      await saveShuffleMemory(memory);
+    }
+
+    // Step 7: Pick the set from the ordered pool
+    const setSize = replayed?.setSize ?? options.setSize ?? settings.setSize;
+    const selectedTracks = selectSetTracks(setSize, allTracks.length, shuffled);
+
+    // Record the seed so this exact set can be replayed later
+    if (seed !== undefined) {
+      const poolHash = generatePlaylistHash(candidateTracks);
+
+      if (replayed) {
+        if (replayed.poolHash !== poolHash) {
+          console.warn(`[SmartShuffle] Replaying seed ${seed} against a different unplayed pool - order will differ`);
+        }
+      } else {
+        const record: ShuffleSetRecord = {
+          seed,
+          createdAt: now,
+          cycleNumber: memory.cycleNumber,
+          poolHash,
+          mode,
+          spacing: hasActiveSpacing(spacing) ? spacing : null,
+          setSize,
+          trackIds: selectedTracks.map(track => track.id),
+        };
+        memory.setHistory = [record, ...(memory.setHistory ?? [])]
+          .slice(0, MAX_SET_HISTORY)
+          // Older records drop their tracks, so the history stays small on huge playlists
+          .map((entry, index) => index < MAX_REPLAYABLE_SETS ? entry : { ...entry, trackIds: undefined });
+        await saveShuffleMemory(memory);
+      }
+
+      console.log(`[SmartShuffle] Seeded shuffle (seed ${seed})`);
+    }
+
     return {
       tracks: selectedTracks,
       stats,
+      setSize,
+      ...(spacingReport && { spacing: spacingReport }),
+      ...(seed !== undefined && { seed }),
     };
   } finally {
-    // Release the lock for this playlist (only if we set it)
-    // IMPORTANT: Signal completion first, then remove from map
-    // This ensures waiting operations see the resolved promise
-    if (releaseLock) {
-      releaseLock();
-      shuffleLocks.delete(playlistId);
-    }
+    // Release the lock for this playlist (only if we took it)
+    releaseLock?.();
   }
 }
 
@@ -450,15 +1343,22 @@ export async function getPlaylistProgress(
       return null;
     }
 
-    const played = memory.playedTrackIds.length;
-    const remaining = totalTracks - played;
+    // Duplicate releases of the same song count once, excluded and blocked tracks not at all
+    const excludedTrackIds = new Set([...(await loadExcludedTrackIds(playlistId)), ...(memory.blockedTrackIds ?? [])]);
+    const { played, total } = countWithDuplicates(
+      memory.playedTrackIds,
+      totalTracks,
+      memory.duplicateGroups,
+      [...excludedTrackIds]
+    );
+    const remaining = Math.max(total - played, 0);
     
     return {
       played,
       remaining,
-      cycleComplete: remaining === 0,
+      cycleComplete: total > 0 && remaining === 0,
       cycleNumber: memory.cycleNumber,
-      percentage: Math.round((played / totalTracks) * 100),
+      percentage: total > 0 ? Math.round((played / total) * 100) : 0,
     };
   } catch (error) {
     console.error('[SmartShuffle] Error getting progress:', error);
@@ -466,19 +1366,99 @@ export async function getPlaylistProgress(
   }
 }
 
+/**
+ * Recompute which of a playlist's tracks the blocklist keeps out
+ * Lets progress reflect a blocklist change before the playlist is shuffled again.
+ */
+export async function refreshBlockedTrackIds(playlistId: string, tracks: SpotifyTrack[]): Promise<void> {
+  const releaseLock = await acquirePlaylistLock(playlistId);
+
+  try {
+    const memory = await loadShuffleMemory(playlistId);
+    if (!memory) return;
+
+    const blockedTrackIds = getBlockedTrackIds(tracks, await getBlocklist());
+    if (JSON.stringify(blockedTrackIds) === JSON.stringify(memory.blockedTrackIds ?? [])) return;
+
+    memory.blockedTrackIds = blockedTrackIds;
+    await saveShuffleMemory(memory);
+  } catch (error) {
+    console.error('[SmartShuffle] Error refreshing blocked tracks:', error);
+  } finally {
+    releaseLock();
+  }
+}
+
+/**
+ * Track IDs that count as heard in the current cycle
+ * A duplicate release of a heard song counts as heard too, just like when sets are drawn.
+ */
+export function getHeardTrackIds(memory: ShuffleMemory): Set<string> {
+  const heard = new Set(memory.playedTrackIds);
+
+  for (const group of memory.duplicateGroups ?? []) {
+    if (group.some(id => memory.playedTrackIds.includes(id))) {
+      group.forEach(id => heard.add(id));
+    }
+  }
+
+  return heard;
+}
+
+/**
+ * Load a playlist's memory, creating it first if the playlist was never shuffled
+ * Lets tracks be marked by hand before the first shuffle.
+ */
+export async function ensureShuffleMemory(playlistId: string, tracks: SpotifyTrack[]): Promise<ShuffleMemory> {
+  const releaseLock = await acquirePlaylistLock(playlistId);
+
+  try {
+    const memory = await loadShuffleMemory(playlistId);
+    if (memory) {
+      return memory;
+    }
+
+    const fresh = createFreshMemory(playlistId, tracks);
+    await saveShuffleMemory(fresh);
+    return fresh;
+  } finally {
+    releaseLock();
+  }
+}
+
 /**
  * Reset shuffle memory for a specific playlist
  * Allows user to start fresh manually
  */
 export async function resetPlaylistMemory(playlistId: string): Promise<void> {
   try {
-    await AsyncStorage.removeItem(getStorageKey(playlistId));
+    await AsyncStorage.multiRemove([getStorageKey(playlistId), getTrackIndexStorageKey(playlistId)]);
+    trackIndexCache.delete(playlistId);
     console.log(`[SmartShuffle] Memory reset for ${playlistId}`);
   } catch (error) {
     console.error('[SmartShuffle] Error resetting memory:', error);
   }
 }
 
+/**
+ * Remove everything stored for a playlist - memory, settings and exclusions
+ * For shuffle targets that are deleted for good (e.g. blends)
+ */
+export async function deletePlaylistShuffleData(playlistId: string): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove([
+      getStorageKey(playlistId),
+      getTrackIndexStorageKey(playlistId),
+      getSettingsStorageKey(playlistId),
+      getExclusionsStorageKey(playlistId),
+    ]);
+    trackIndexCache.delete(playlistId);
+    console.log(`[SmartShuffle] Shuffle data deleted for ${playlistId}`);
+  } catch (error) {
+    console.error('[SmartShuffle] Error deleting shuffle data:', error);
+  }
+}
+
 /**
  * Clear all shuffle memory (all playlists)
  * Useful for debugging or user logout
@@ -487,9 +1467,11 @@ export async function clearAllShuffleMemory(): Promise<void> {
   try {
     const allKeys = await AsyncStorage.getAllKeys();
     const shuffleKeys = allKeys.filter(key => key.startsWith(STORAGE_PREFIX));
+    const indexKeys = allKeys.filter(key => key.startsWith(TRACK_INDEX_STORAGE_PREFIX));
     
-    if (shuffleKeys.length > 0) {
-      await AsyncStorage.multiRemove(shuffleKeys);
+    if (shuffleKeys.length > 0 || indexKeys.length > 0) {
+      await AsyncStorage.multiRemove([...shuffleKeys, ...indexKeys]);
+      trackIndexCache.clear();
       console.log(`[SmartShuffle] Cleared ${shuffleKeys.length} playlist memories`);
     }
   } catch (error) {
@@ -517,8 +1499,8 @@ export async function getTrackedPlaylists(): Promise<string[]> {
 }
 
 /**
- * Mark tracks as played after successful queueing
- * This function should be called ONLY after all tracks have been successfully queued
+ * Mark tracks as played once they have actually been heard
+ * Called by the listening session monitor when a track plays past the heard threshold
  *
  * @param playlistId - The playlist ID
  * @param trackIds - Array of track IDs to mark as played
@@ -528,6 +1510,8 @@ export async function markTracksAsPlayed(
   playlistId: string,
   trackIds: string[]
 ): Promise<boolean> {
+  const releaseLock = await acquirePlaylistLock(playlistId);
+
   try {
     // Load current memory
     const memory = await loadShuffleMemory(playlistId);
@@ -554,12 +1538,15 @@ export async function markTracksAsPlayed(
   } catch (error) {
     console.error('[SmartShuffle] Error marking tracks as played:', error);
     return false;
+  } finally {
+    releaseLock();
   }
 }
 
 /**
- * Rollback tracks that were NOT successfully queued
- * This function should be called when queueing fails partway through
+ * Remove tracks from the played list, so they count as unheard again
+ * Used to mark tracks unheard by hand. Tracks are only marked once heard, so
+ * a set that never fully reached Spotify has little to roll back here.
  *
  * @param playlistId - The playlist ID
  * @param trackIds - Array of track IDs to remove from played list
@@ -569,6 +1556,8 @@ export async function rollbackUnqueuedTracks(
   playlistId: string,
   trackIds: string[]
 ): Promise<boolean> {
+  const releaseLock = await acquirePlaylistLock(playlistId);
+
   try {
     // Load current memory
     const memory = await loadShuffleMemory(playlistId);
@@ -596,6 +1585,36 @@ export async function rollbackUnqueuedTracks(
   } catch (error) {
     console.error('[SmartShuffle] Error rolling back tracks:', error);
     return false;
+  } finally {
+    releaseLock();
   }
 }
 
+/**
+ * Record how the last queued set matched the Spotify queue
+ * Called by the background queue service once a set has been queued
+ *
+ * @param playlistId - The playlist ID
+ * @param report - Result of reconciling the set with the Spotify queue
+ */
+export async function recordQueueReport(
+  playlistId: string,
+  report: QueueReconciliationReport
+): Promise<void> {
+  const releaseLock = await acquirePlaylistLock(playlistId);
+
+  try {
+    const memory = await loadShuffleMemory(playlistId);
+
+    if (!memory) {
+      return;
+    }
+
+    memory.lastQueueReport = report;
+    await saveShuffleMemory(memory);
+  } catch (error) {
+    console.error('[SmartShuffle] Error recording queue report:', error);
+  } finally {
+    releaseLock();
+  }
+}
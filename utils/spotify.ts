@@ -4,8 +4,30 @@ import * as Linking from 'expo-linking';
 import * as Crypto from 'expo-crypto';
 import Constants from 'expo-constants';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { SpotifyUser, SpotifyPlaylist, SpotifyTrack, PlaylistTracks, SavedTracks } from '@/types/spotify';
+import type {
+  SpotifyUser,
+  SpotifyPlaylist,
+  SpotifyTrack,
+  PlaylistTracks,
+  SavedTracks,
+  SpotifyPlaybackState,
+  SpotifyQueue,
+  SpotifyAlbum,
+  SpotifyArtist,
+  SpotifySimplifiedTrack,
+} from '@/types/spotify';
 import { Platform } from 'react-native';
+import {
+  RateLimitedError,
+  NetworkOfflineError,
+  TokenRevokedError,
+  InsufficientScopeError,
+  RequestRejectedError,
+  NotFoundError,
+  NoActiveDeviceError,
+  createSpotifyError,
+  isSpotifyApiError,
+} from './spotifyErrors';
 
 WebBrowser.maybeCompleteAuthSession();
 
@@ -34,8 +56,14 @@ const SPOTIFY_ENDPOINTS = {
   TOKEN: 'https://accounts.spotify.com/api/token',
   ME: 'https://api.spotify.com/v1/me',
   PLAYLISTS: 'https://api.spotify.com/v1/me/playlists',
+  PLAYLIST: (id: string) => `https://api.spotify.com/v1/playlists/${id}`,
   PLAYLIST_TRACKS: (id: string) => `https://api.spotify.com/v1/playlists/${id}/tracks`,
+  USER_PLAYLISTS: (userId: string) => `https://api.spotify.com/v1/users/${encodeURIComponent(userId)}/playlists`,
   SAVED_TRACKS: 'https://api.spotify.com/v1/me/tracks',
+  SAVED_ALBUMS: 'https://api.spotify.com/v1/me/albums',
+  FOLLOWED_ARTISTS: 'https://api.spotify.com/v1/me/following?type=artist',
+  ARTIST_ALBUMS: (id: string) => `https://api.spotify.com/v1/artists/${id}/albums`,
+  ALBUMS: (ids: string[]) => `https://api.spotify.com/v1/albums?ids=${ids.join(',')}`,
   DEVICES: 'https://api.spotify.com/v1/me/player/devices',
   PLAYBACK_STATE: 'https://api.spotify.com/v1/me/player',
   CURRENTLY_PLAYING: 'https://api.spotify.com/v1/me/player/currently-playing',
@@ -69,6 +97,22 @@ function base64URLEncode(str: string): string {
     .replace(/\//g, '_');
 }
 
+// Flatten playlist/saved track items, keeping when each track was added
+function withAddedAt(items: Array<{ added_at: string; track: SpotifyTrack | null }>): SpotifyTrack[] {
+  return items
+    .filter((item): item is { added_at: string; track: SpotifyTrack } => item.track !== null)
+    .map(item => ({ ...item.track, added_at: item.added_at }));
+}
+
+// Album tracks come without their album - attach it so they look like any other track
+function withAlbum(album: SpotifyAlbum, tracks: SpotifySimplifiedTrack[], addedAt?: string): SpotifyTrack[] {
+  return tracks.map(track => ({
+    ...track,
+    album: { id: album.id, name: album.name, images: album.images },
+    added_at: addedAt,
+  }));
+}
+
 async function generateCodeChallenge(verifier: string): Promise<string> {
   const digest = await Crypto.digestStringAsync(
     Crypto.CryptoDigestAlgorithm.SHA256,
@@ -88,7 +132,10 @@ export async function authenticate(): Promise<boolean> {
     'user-read-playback-state',
     'user-modify-playback-state',
     'user-read-currently-playing',
-    'user-library-read'
+    'user-library-read',
+    'playlist-modify-private', // Saving shuffled sets as "Flux: <playlist>" playlists
+    'playlist-modify-public',
+    'user-follow-read' // Followed artists as shuffle sources
   ];
   
   // Generate PKCE code verifier and challenge
@@ -248,7 +295,177 @@ async function refreshAccessToken(): Promise<boolean> {
   }
 }
 
-async function makeApiCall<T>(url: string, options?: { method?: string; body?: any; headers?: Record<string, string>; accept204?: boolean }): Promise<T | null> {
+// ----------------------------------------------------
+// Rate limit scheduler
+// ----------------------------------------------------
+// Spotify rate limits per app, not per request type, so a 429 on any call means
+// every call should wait. All requests go through makeApiCall, which waits here
+// before sending and records Retry-After windows reported by Spotify.
+
+export interface RateLimitState {
+  isLimited: boolean;
+  resumeAt: number | null;   // Timestamp when requests may resume (null when not limited)
+  hitCount: number;          // 429 responses seen since the app started
+}
+
+type RateLimitListener = (state: RateLimitState) => void;
+
+const DEFAULT_RETRY_AFTER_MS = 5 * 1000; // Used when Spotify omits Retry-After
+const MAX_AUTO_RETRY_WAIT_MS = 60 * 1000; // Longer windows are surfaced to the caller instead of waited out
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+let rateLimitedUntil = 0;
+let rateLimitHitCount = 0;
+const rateLimitListeners = new Set<RateLimitListener>();
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number {
+  if (!header) return DEFAULT_RETRY_AFTER_MS;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return DEFAULT_RETRY_AFTER_MS;
+}
+
+function notifyRateLimitListeners(): void {
+  const state = getRateLimitState();
+  rateLimitListeners.forEach(listener => {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error('[SpotifyService] Rate limit listener error ->', error);
+    }
+  });
+}
+
+function recordRateLimit(retryAfterMs: number): void {
+  rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + retryAfterMs);
+  rateLimitHitCount++;
+  console.warn(`[SpotifyService] Rate limited by Spotify, pausing all requests for ${Math.ceil(retryAfterMs / 1000)}s`);
+  notifyRateLimitListeners();
+}
+
+// Current rate limit window shared by all Spotify requests
+export function getRateLimitState(): RateLimitState {
+  const isLimited = Date.now() < rateLimitedUntil;
+  return {
+    isLimited,
+    resumeAt: isLimited ? rateLimitedUntil : null,
+    hitCount: rateLimitHitCount,
+  };
+}
+
+// Subscribe to rate limit changes; returns an unsubscribe function
+export function subscribeToRateLimit(listener: RateLimitListener): () => void {
+  rateLimitListeners.add(listener);
+  return () => {
+    rateLimitListeners.delete(listener);
+  };
+}
+
+// Resolve once the current rate limit window (if any) has passed
+export async function waitForRateLimit(): Promise<void> {
+  let wasLimited = false;
+
+  while (Date.now() < rateLimitedUntil) {
+    wasLimited = true;
+    await new Promise(resolve => setTimeout(resolve, rateLimitedUntil - Date.now()));
+  }
+
+  if (wasLimited) {
+    notifyRateLimitListeners();
+  }
+}
+
+/**
+ * Send a request through the rate limit scheduler
+ * Waits out the shared window before sending, and retries 429s after short
+ * Retry-After windows. Long windows are thrown so the caller can decide.
+ */
+async function sendScheduledRequest(
+  url: string,
+  accessToken: string | null,
+  options?: { method?: string; body?: any; headers?: Record<string, string> }
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await waitForRateLimit();
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: options?.method || 'GET',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          ...(options?.body ? { 'Content-Type': 'application/json' } : {}),
+          ...(options?.headers || {}),
+        },
+        body: options?.body ? JSON.stringify(options.body) : undefined,
+      });
+    } catch {
+      // fetch only rejects when the request never got a response
+      throw new NetworkOfflineError();
+    }
+
+    if (response.status !== 429) {
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    recordRateLimit(retryAfterMs);
+
+    if (retryAfterMs > MAX_AUTO_RETRY_WAIT_MS || attempt >= MAX_RATE_LIMIT_RETRIES) {
+      throw new RateLimitedError(retryAfterMs);
+    }
+  }
+}
+
+/**
+ * Read the body of a successful response
+ */
+async function readResponse<T>(response: Response): Promise<T | null> {
+  if (response.status === 204) {
+    return null;
+  }
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('application/json')) {
+    return (await response.json()) as T;
+  }
+  // Non-JSON successful response (e.g., "OK" or empty)
+  return null;
+}
+
+/**
+ * Throw the typed error for a failed response
+ * Statuses without a dedicated error type are logged and resolve to null, as before,
+ * unless the caller asked for strict handling.
+ */
+async function throwForFailedResponse(response: Response, url: string, strict?: boolean): Promise<null> {
+  const body = await response.json().catch(() => null);
+  const error = createSpotifyError(response.status, body, url);
+
+  if (error) {
+    throw error;
+  }
+  if (strict) {
+    throw new RequestRejectedError(response.status, body?.error?.message);
+  }
+
+  console.error(`[SpotifyService] Request failed (${response.status}) ->`, url, body?.error?.message ?? '');
+  return null;
+}
+
+/**
+ * Send a request to the Spotify Web API
+ *
+ * Typed errors (spotifyErrors) are thrown for rate limits, scopes, devices, missing
+ * items, revoked sessions and lost connectivity. Other failed responses resolve to
+ * null, unless the request opts in with `strict`.
+ */
+async function makeApiCall<T>(url: string, options?: { method?: string; body?: any; headers?: Record<string, string>; accept204?: boolean; strict?: boolean }): Promise<T | null> {
   let accessToken = await AsyncStorage.getItem('spotify_access_token');
   if (!accessToken) {
     throw new Error('No access token available');
@@ -265,83 +482,30 @@ async function makeApiCall<T>(url: string, options?: { method?: string; body?: a
       }
     }
 
-    const response = await fetch(url, {
-      method: options?.method || 'GET',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        ...(options?.body ? { 'Content-Type': 'application/json' } : {}),
-        ...(options?.headers || {}),
-      },
-      body: options?.body ? JSON.stringify(options.body) : undefined,
-    });
+    const response = await sendScheduledRequest(url, accessToken, options);
 
-    if (response.status === 204) {
-      return null;
-    }
     if (response.ok) {
-      const contentType = response.headers.get('content-type') || '';
-      if (contentType.includes('application/json')) {
-        return (await response.json()) as T;
-      }
-      // Non-JSON successful response (e.g., "OK" or empty)
-      return null;
-    }
-    if (response.status === 429) {
-      // Rate limit exceeded - throw error so retry logic can handle it
-      const retryAfter = response.headers.get('Retry-After');
-      throw new Error(`Rate limit exceeded (429). Retry after: ${retryAfter || 'unknown'} seconds`);
-    }
-    if (response.status === 403) {
-      // Handle insufficient scope errors
-      const errorData = await response.json().catch(() => ({}));
-      if (errorData.error?.message?.includes('Insufficient client scope')) {
-        throw new Error(`Insufficient client scope: ${errorData.error.message}`);
-      }
-      throw new Error(`Forbidden (403): ${errorData.error?.message || 'Access denied'}`);
+      return await readResponse<T>(response);
     }
     if (response.status === 401) {
       const refreshed = await refreshAccessToken();
-      if (refreshed) {
-        // Get the new access token after refresh for retry
-        const newAccessToken = await AsyncStorage.getItem('spotify_access_token');
-        const retry = await fetch(url, {
-          method: options?.method || 'GET',
-          headers: {
-            'Authorization': `Bearer ${newAccessToken}`,
-            ...(options?.body ? { 'Content-Type': 'application/json' } : {}),
-            ...(options?.headers || {}),
-          },
-          body: options?.body ? JSON.stringify(options.body) : undefined,
-        });
-        if (retry.status === 204) {
-          return null;
-        }
-        if (retry.status === 403) {
-          // Handle insufficient scope errors on retry
-          const retryErrorData = await retry.json().catch(() => ({}));
-          if (retryErrorData.error?.message?.includes('Insufficient client scope')) {
-            throw new Error(`Insufficient client scope: ${retryErrorData.error.message}`);
-          }
-          throw new Error(`Forbidden (403): ${retryErrorData.error?.message || 'Access denied'}`);
-        }
-        if (retry.status === 429) {
-          // Rate limit exceeded on retry - throw error
-          const retryAfter = retry.headers.get('Retry-After');
-          throw new Error(`Rate limit exceeded (429). Retry after: ${retryAfter || 'unknown'} seconds`);
-        }
-        if (retry.ok) {
-          const retryContentType = retry.headers.get('content-type') || '';
-          if (retryContentType.includes('application/json')) {
-            return (await retry.json()) as T;
-          }
-          return null;
-        }
+      if (!refreshed) {
+        throw new TokenRevokedError();
       }
+
+      // Get the new access token after refresh for retry
+      const newAccessToken = await AsyncStorage.getItem('spotify_access_token');
+      const retry = await sendScheduledRequest(url, newAccessToken, options);
+
+      if (retry.ok) {
+        return await readResponse<T>(retry);
+      }
+      return await throwForFailedResponse(retry, url, options?.strict);
     }
-    return null;
+    return await throwForFailedResponse(response, url, options?.strict);
   } catch (error) {
-    // Re-throw rate limit errors so they can be handled by retry logic
-    if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
+    // Typed errors are meant for the caller (rate limits, scopes, devices, ...)
+    if (isSpotifyApiError(error)) {
       throw error;
     }
     console.error('[SpotifyService] error ->', error);
@@ -351,6 +515,19 @@ async function makeApiCall<T>(url: string, options?: { method?: string; body?: a
   }
 }
 
+/**
+ * Resolve a read to null when the item doesn't exist (404)
+ * For reads where "nothing there" is an expected answer - other errors still throw.
+ */
+async function nullIfNotFound<T>(request: Promise<T | null>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  }
+}
+
 export async function getCurrentUser(): Promise<SpotifyUser | null> {
   return await makeApiCall<SpotifyUser>(SPOTIFY_ENDPOINTS.ME);
 }
@@ -389,7 +566,10 @@ export async function getPlaylistTracks(playlistId: string): Promise<SpotifyTrac
   
   try {
     // First, get the first page to know the total count
-    const firstPage = await makeApiCall<PlaylistTracks>(`${SPOTIFY_ENDPOINTS.PLAYLIST_TRACKS(playlistId)}?limit=${limit}&offset=0`);
+    // A deleted (or no longer shared) playlist has no tracks
+    const firstPage = await nullIfNotFound(
+      makeApiCall<PlaylistTracks>(`${SPOTIFY_ENDPOINTS.PLAYLIST_TRACKS(playlistId)}?limit=${limit}&offset=0`)
+    );
     
     if (!firstPage || !firstPage.items) {
       return [];
@@ -399,7 +579,7 @@ export async function getPlaylistTracks(playlistId: string): Promise<SpotifyTrac
     const tracks: SpotifyTrack[] = [];
     
     // Add tracks from first page
-    tracks.push(...firstPage.items.map(item => item.track).filter(track => track !== null));
+    tracks.push(...withAddedAt(firstPage.items));
     
     // If we have all tracks already, return early
     if (firstPage.items.length < limit || totalTracks <= limit) {
@@ -424,9 +604,11 @@ export async function getPlaylistTracks(playlistId: string): Promise<SpotifyTrac
         const promise = makeApiCall<PlaylistTracks>(`${SPOTIFY_ENDPOINTS.PLAYLIST_TRACKS(playlistId)}?limit=${limit}&offset=${offset}`)
           .then(data => {
             if (!data || !data.items) return [];
-            return data.items.map(item => item.track).filter(track => track !== null);
+            return withAddedAt(data.items);
           })
           .catch(error => {
+            // A rate-limited page must not silently drop tracks - let the caller retry later
+            if (error instanceof RateLimitedError) throw error;
             console.error(`[SpotifyService] Error fetching playlist tracks page ${pageIndex}:`, error);
             return []; // Return empty array for failed requests
           });
@@ -476,7 +658,7 @@ export async function getUserSavedTracks(): Promise<SpotifyTrack[]> {
     const tracks: SpotifyTrack[] = [];
     
     // Add tracks from first page
-    tracks.push(...firstPage.items.map(item => item.track).filter(track => track !== null));
+    tracks.push(...withAddedAt(firstPage.items));
     
     // If we have all tracks already, return early
     if (firstPage.items.length < limit || totalTracks <= limit) {
@@ -508,9 +690,11 @@ export async function getUserSavedTracks(): Promise<SpotifyTrack[]> {
         }>(`${SPOTIFY_ENDPOINTS.SAVED_TRACKS}?limit=${limit}&offset=${offset}`)
           .then(data => {
             if (!data || !data.items) return [];
-            return data.items.map(item => item.track).filter(track => track !== null);
+            return withAddedAt(data.items);
           })
           .catch(error => {
+            // A rate-limited page must not silently drop tracks - let the caller retry later
+            if (error instanceof RateLimitedError) throw error;
             console.error(`[SpotifyService] Error fetching saved tracks page ${pageIndex}:`, error);
             return []; // Return empty array for failed requests
           });
@@ -532,17 +716,142 @@ export async function getUserSavedTracks(): Promise<SpotifyTrack[]> {
 
     return tracks;
     
-  } catch (error: any) {
-    // Handle insufficient scope error gracefully
-    if (error?.status === 403 || (error?.message && error.message.includes('Insufficient client scope'))) {
+  } catch (error) {
+    // Missing user-library-read scope - callers show a reconnect prompt
+    if (error instanceof InsufficientScopeError) {
       console.warn('[SpotifyService] Insufficient scope for saved tracks. User needs to re-authenticate.');
-      return [];
     }
-    // Re-throw other errors
     throw error;
   }
 }
 
+// ----------------------------------------------------
+// Albums & artists (additional shuffle sources)
+// ----------------------------------------------------
+
+// Follow `next` links one page at a time - these lists are small compared to playlists
+async function fetchAllPages<TPage, TItem>(
+  firstUrl: string,
+  getPage: (data: TPage) => { items: TItem[]; next: string | null } | undefined
+): Promise<TItem[]> {
+  const items: TItem[] = [];
+  let url: string | null = firstUrl;
+
+  while (url) {
+    const data: TPage | null = await nullIfNotFound(makeApiCall<TPage>(url));
+    const page: { items: TItem[]; next: string | null } | undefined = data ? getPage(data) : undefined;
+    if (!page) break;
+
+    items.push(...page.items);
+    url = page.next;
+  }
+
+  return items;
+}
+
+// All tracks of an album, fetching past the first page embedded in the album object
+async function getAlbumTrackItems(album: SpotifyAlbum): Promise<SpotifySimplifiedTrack[]> {
+  const tracks = [...album.tracks.items];
+
+  if (album.tracks.next) {
+    tracks.push(...await fetchAllPages<{ items: SpotifySimplifiedTrack[]; next: string | null }, SpotifySimplifiedTrack>(
+      album.tracks.next,
+      data => data
+    ));
+  }
+
+  return tracks;
+}
+
+// Tracks of every album saved in the user's library (added_at is when the album was saved)
+export async function getSavedAlbumTracks(): Promise<SpotifyTrack[]> {
+  const savedAlbums = await fetchAllPages<{ items: Array<{ added_at: string; album: SpotifyAlbum }>; next: string | null }, { added_at: string; album: SpotifyAlbum }>(
+    `${SPOTIFY_ENDPOINTS.SAVED_ALBUMS}?limit=50`,
+    data => data
+  );
+
+  const tracks: SpotifyTrack[] = [];
+  for (const { album, added_at } of savedAlbums) {
+    tracks.push(...withAlbum(album, await getAlbumTrackItems(album), added_at));
+  }
+  return tracks;
+}
+
+export async function getFollowedArtists(): Promise<SpotifyArtist[]> {
+  return await fetchAllPages<{ artists: { items: SpotifyArtist[]; next: string | null } }, SpotifyArtist>(
+    `${SPOTIFY_ENDPOINTS.FOLLOWED_ARTISTS}&limit=50`,
+    data => data.artists
+  );
+}
+
+// An artist's albums and singles (no compilations or guest appearances), in release order
+export async function getArtistCatalogTracks(artistId: string): Promise<SpotifyTrack[]> {
+  const albums = await fetchAllPages<{ items: Array<{ id: string }>; next: string | null }, { id: string }>(
+    `${SPOTIFY_ENDPOINTS.ARTIST_ALBUMS(artistId)}?include_groups=album,single&limit=50`,
+    data => data
+  );
+
+  const tracks: SpotifyTrack[] = [];
+  // Full album objects (with tracks) can be fetched 20 at a time
+  for (let i = 0; i < albums.length; i += 20) {
+    const ids = albums.slice(i, i + 20).map(album => album.id);
+    const data = await nullIfNotFound(makeApiCall<{ albums: Array<SpotifyAlbum | null> }>(SPOTIFY_ENDPOINTS.ALBUMS(ids)));
+
+    for (const album of data?.albums ?? []) {
+      if (!album) continue;
+      // Albums list every performer - keep only tracks the artist is on
+      const albumTracks = await getAlbumTrackItems(album);
+      tracks.push(...withAlbum(album, albumTracks.filter(track => track.artists.some(artist => artist.id === artistId))));
+    }
+  }
+  return tracks;
+}
+
+// Playlist details without its tracks - works for any public playlist, not only the user's
+export async function getPlaylist(playlistId: string): Promise<SpotifyPlaylist | null> {
+  return await nullIfNotFound(makeApiCall<SpotifyPlaylist>(
+    `${SPOTIFY_ENDPOINTS.PLAYLIST(playlistId)}?fields=id,name,description,images,owner,public,collaborative,snapshot_id,uri,href,external_urls,type,primary_color,tracks.total,tracks.href`
+  ));
+}
+
+// Playlist items can only be written 100 at a time
+const PLAYLIST_WRITE_LIMIT = 100;
+
+// Create a private playlist in the user's library
+export async function createPlaylist(userId: string, name: string, description: string): Promise<SpotifyPlaylist> {
+  const playlist = await makeApiCall<SpotifyPlaylist>(SPOTIFY_ENDPOINTS.USER_PLAYLISTS(userId), {
+    method: 'POST',
+    body: { name, description, public: false },
+    strict: true,
+  });
+  if (!playlist) {
+    throw new Error(`Spotify did not return the new playlist "${name}"`);
+  }
+  return playlist;
+}
+
+export async function updatePlaylistDetails(playlistId: string, details: { name?: string; description?: string }): Promise<void> {
+  await makeApiCall(SPOTIFY_ENDPOINTS.PLAYLIST(playlistId), { method: 'PUT', body: details, accept204: true, strict: true });
+}
+
+// Replace everything in a playlist with the given tracks, in order
+export async function replacePlaylistTracks(playlistId: string, uris: string[]): Promise<void> {
+  // The first chunk replaces the old items (an empty list clears them), the rest is appended
+  await makeApiCall(SPOTIFY_ENDPOINTS.PLAYLIST_TRACKS(playlistId), {
+    method: 'PUT',
+    body: { uris: uris.slice(0, PLAYLIST_WRITE_LIMIT) },
+    strict: true,
+  });
+
+  for (let offset = PLAYLIST_WRITE_LIMIT; offset < uris.length; offset += PLAYLIST_WRITE_LIMIT) {
+    await makeApiCall(SPOTIFY_ENDPOINTS.PLAYLIST_TRACKS(playlistId), {
+      method: 'POST',
+      body: { uris: uris.slice(offset, offset + PLAYLIST_WRITE_LIMIT) },
+      strict: true,
+    });
+  }
+}
+
 export function isAuthenticated(): boolean {
   return !!getAccessToken();
 }
@@ -589,8 +898,8 @@ export async function hasRequiredScopes(): Promise<boolean> {
     // Try to fetch just one saved track to test the scope
     await makeApiCall(`${SPOTIFY_ENDPOINTS.SAVED_TRACKS}?limit=1`);
     return true;
-  } catch (error: any) {
-    if (error?.message?.includes('Insufficient client scope')) {
+  } catch (error) {
+    if (error instanceof InsufficientScopeError) {
       return false;
     }
     // If it's another error, assume scopes are fine
@@ -604,11 +913,12 @@ export async function getDevices(): Promise<Array<{ id: string; is_active: boole
   return data?.devices ?? null;
 }
 
-export async function getPlaybackState(): Promise<any | null> {
-  return await makeApiCall<any>(SPOTIFY_ENDPOINTS.PLAYBACK_STATE);
+export async function getPlaybackState(): Promise<SpotifyPlaybackState | null> {
+  return await makeApiCall<SpotifyPlaybackState>(SPOTIFY_ENDPOINTS.PLAYBACK_STATE);
 }
 
 // Ensure there is an active Spotify Connect device. If none, try opening the Spotify app.
+// Resolves to undefined when no device turns up; offline, session and rate limit errors are thrown.
 export async function ensureActiveDevice(trackUri?: string, playlistUri?: string): Promise<string | undefined> {
   try {
     let devices = await getDevices();
@@ -662,6 +972,8 @@ export async function ensureActiveDevice(trackUri?: string, playlistUri?: string
       }
     }
   } catch (error) {
+    // Only a missing device means "no device" - callers alert on the other errors themselves
+    if (!(error instanceof NotFoundError || error instanceof NoActiveDeviceError)) throw error;
     console.error('[SpotifyService] ensureActiveDevice error ->', error);
   }
   return undefined;
@@ -671,7 +983,10 @@ export async function ensureActiveDevice(trackUri?: string, playlistUri?: string
 export async function openSpotifyApp(targetUri?: string): Promise<boolean> {
   // Handle special case for Liked Songs
   let deeplink: string;
-  if (targetUri === 'liked-songs') {
+  if (!targetUri) {
+    // No specific target (e.g. blends, which only exist in Flux)
+    deeplink = 'https://open.spotify.com';
+  } else if (targetUri === 'liked-songs') {
     // Liked Songs has a special URL format
     deeplink = 'https://open.spotify.com/collection/tracks';
   } else {
@@ -693,6 +1008,11 @@ export async function openSpotifyApp(targetUri?: string): Promise<boolean> {
   }
 }
 
+// Spotify documents no cap on the uris of a play request, but rejects very large
+// ones (400 / 413). 500 is our own conservative ceiling, not a Spotify number: a
+// rejected request only falls back to queueing one by one, so it costs speed, not tracks.
+export const PLAY_URIS_LIMIT = 500;
+
 export async function playUris(uris: string[], deviceId?: string, positionMs?: number): Promise<boolean> {
   const url = SPOTIFY_ENDPOINTS.PLAY(deviceId);
   const body: any = { uris };
@@ -703,6 +1023,11 @@ export async function playUris(uris: string[], deviceId?: string, positionMs?: n
   return res !== null || true; // 204 returns null
 }
 
+// Play a batch of tracks, throwing RequestRejectedError when Spotify refuses it (e.g. too many uris)
+export async function playUriBatch(uris: string[], deviceId?: string): Promise<void> {
+  await makeApiCall(SPOTIFY_ENDPOINTS.PLAY(deviceId), { method: 'PUT', body: { uris }, accept204: true, strict: true });
+}
+
 export async function resume(deviceId?: string): Promise<boolean> {
   const url = SPOTIFY_ENDPOINTS.PLAY(deviceId);
   const res = await makeApiCall(url, { method: 'PUT', accept204: true });
@@ -744,9 +1069,9 @@ export async function addToQueue(uri: string, deviceId?: string): Promise<boolea
   return res !== null || true;
 }
 
-// Get user's queue information
-export async function getUserQueue(): Promise<any | null> {
-  return await makeApiCall<any>(SPOTIFY_ENDPOINTS.USER_QUEUE);
+// Get user's queue information (currently playing + next ~20 items)
+export async function getUserQueue(): Promise<SpotifyQueue | null> {
+  return await makeApiCall<SpotifyQueue>(SPOTIFY_ENDPOINTS.USER_QUEUE);
 }
 
 // Check if user has an active device available
@@ -794,11 +1119,13 @@ export async function verifyDeviceHealth(deviceId: string): Promise<boolean> {
 }
 
 // Check if user's queue has songs (excluding currently playing)
-export async function hasQueuedSongs(): Promise<{ hasQueue: boolean; queueCount: number }> {
-  return { hasQueue: false, queueCount: 0 };
+// Tracks Flux put there itself (its sets still waiting to be heard) don't count, same as
+// queue reconciliation tells the set's tracks from foreign ones.
+export async function hasQueuedSongs(fluxTrackIds: string[] = []): Promise<{ hasQueue: boolean; queueCount: number }> {
   try {
     const queueData = await getUserQueue();
-    const queueCount = queueData?.queue?.length || 0;
+    const fluxIds = new Set(fluxTrackIds);
+    const queueCount = (queueData?.queue ?? []).filter(item => !fluxIds.has(item.id)).length;
 
     return {
       hasQueue: queueCount > 0,
@@ -820,14 +1147,23 @@ export const SpotifyService = {
   getUserPlaylists,
   getPlaylistTracks,
   getUserSavedTracks,
+  getSavedAlbumTracks,
+  getFollowedArtists,
+  getArtistCatalogTracks,
+  getPlaylist,
+  createPlaylist,
+  updatePlaylistDetails,
+  replacePlaylistTracks,
   isAuthenticated,
   initializeAuth,
   hasRequiredScopes,
   getDevices,
   getPlaybackState,
+  getUserQueue,
   ensureActiveDevice,
   openSpotifyApp,
   playUris,
+  playUriBatch,
   resume,
   pause,
   next,
@@ -836,10 +1172,13 @@ export const SpotifyService = {
   transferPlayback,
   addToQueue,
   verifyDeviceHealth,
+  getRateLimitState,
+  subscribeToRateLimit,
+  waitForRateLimit,
 };
 
 // Generate cryptographically secure random number between 0 and 1
-function getSecureRandom(): number {
+export function getSecureRandom(): number {
   try {
     // React Native/Expo environment - use expo-crypto (works on iOS/Android/Web)
     // expo-crypto.getRandomBytes is synchronous and generates cryptographically secure random bytes
@@ -877,13 +1216,34 @@ function getSecureRandom(): number {
   return (Math.random() + seededValue / m) % 1;
 }
 
+// Generate a random 32-bit seed for a reproducible shuffle (from crypto randomness)
+export function generateShuffleSeed(): number {
+  return Math.floor(getSecureRandom() * 0x100000000) >>> 0;
+}
+
+// Seeded PRNG (mulberry32) returning numbers between 0 and 1
+// The same seed always yields the same sequence, so a shuffle can be replayed exactly.
+// NOT cryptographically secure - only used when a reproducible shuffle is requested.
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
 // True random shuffle using Fisher-Yates algorithm with crypto-secure randomness
-export function trueRandomShuffle<T>(array: T[]): T[] {
+// Pass a seeded random source (createSeededRandom) to get a reproducible order instead
+export function trueRandomShuffle<T>(array: T[], random: () => number = getSecureRandom): T[] {
   const shuffled = [...array];
 
   for (let i = shuffled.length - 1; i > 0; i--) {
-    // Use crypto-secure random number generation
-    const randomValue = getSecureRandom();
+    // Use crypto-secure random number generation (unless a seeded source was given)
+    const randomValue = random();
     const j = Math.floor(randomValue * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
@@ -0,0 +1,222 @@
+/**
+ * Spotify API Errors
+ *
+ * Typed errors thrown by the Spotify service, so callers can branch on
+ * `instanceof` instead of matching message strings.
+ *
+ * Every error carries:
+ * - kind: stable identifier (handy for switch statements and UI mapping)
+ * - status: HTTP status, or null when the request never reached Spotify
+ * - retryable: whether trying again later can succeed without user action
+ * - retryAfterMs: how long to wait before retrying, when Spotify said so
+ *
+ * Messages are written for users - they end up in notifications and alerts.
+ */
+
+export type SpotifyErrorKind =
+  | 'rate-limited'
+  | 'insufficient-scope'
+  | 'premium-required'
+  | 'no-active-device'
+  | 'token-revoked'
+  | 'network-offline'
+  | 'not-found'
+  | 'request-rejected';
+
+/**
+ * Shape of Spotify's JSON error body: { error: { status, message, reason? } }
+ */
+interface SpotifyErrorBody {
+  error?: {
+    status?: number;
+    message?: string;
+    reason?: string;
+  };
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export abstract class SpotifyApiError extends Error {
+  abstract readonly kind: SpotifyErrorKind;
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, options: { status: number | null; retryable: boolean; retryAfterMs?: number | null }) {
+    super(message);
+    // Keep instanceof working when classes are transpiled
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+}
+
+/**
+ * 429 - Spotify asked us to slow down
+ */
+export class RateLimitedError extends SpotifyApiError {
+  readonly kind = 'rate-limited' as const;
+
+  constructor(retryAfterMs: number) {
+    super(`Spotify is rate limiting requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`, {
+      status: 429,
+      retryable: true,
+      retryAfterMs,
+    });
+  }
+}
+
+/**
+ * 403 - The access token lacks a scope the endpoint needs (user must reconnect)
+ */
+export class InsufficientScopeError extends SpotifyApiError {
+  readonly kind = 'insufficient-scope' as const;
+
+  constructor(detail?: string) {
+    super(`Insufficient client scope${detail ? `: ${detail}` : ''}. Please reconnect your Spotify account.`, {
+      status: 403,
+      retryable: false,
+    });
+  }
+}
+
+/**
+ * 403 - Player endpoints only work for Spotify Premium accounts
+ */
+export class PremiumRequiredError extends SpotifyApiError {
+  readonly kind = 'premium-required' as const;
+
+  constructor() {
+    super('Spotify Premium is required to control playback and the queue.', {
+      status: 403,
+      retryable: false,
+    });
+  }
+}
+
+/**
+ * 404 - No Spotify Connect device is active to receive player commands
+ */
+export class NoActiveDeviceError extends SpotifyApiError {
+  readonly kind = 'no-active-device' as const;
+
+  constructor() {
+    super('No active Spotify device found. Please open Spotify.', {
+      status: 404,
+      retryable: true,
+    });
+  }
+}
+
+/**
+ * 401 - The session can't be refreshed (token revoked or expired refresh token)
+ */
+export class TokenRevokedError extends SpotifyApiError {
+  readonly kind = 'token-revoked' as const;
+
+  constructor() {
+    super('Your Spotify session has expired. Please log in again.', {
+      status: 401,
+      retryable: false,
+    });
+  }
+}
+
+/**
+ * The request never reached Spotify (no connection, DNS failure, ...)
+ */
+export class NetworkOfflineError extends SpotifyApiError {
+  readonly kind = 'network-offline' as const;
+
+  constructor() {
+    super('Could not reach Spotify. Check your internet connection.', {
+      status: null,
+      retryable: true,
+    });
+  }
+}
+
+/**
+ * 404 - The requested resource doesn't exist (e.g. a deleted playlist)
+ */
+export class NotFoundError extends SpotifyApiError {
+  readonly kind = 'not-found' as const;
+
+  constructor(detail?: string) {
+    super(detail ? `Not found: ${detail}` : 'The requested Spotify item no longer exists.', {
+      status: 404,
+      retryable: false,
+    });
+  }
+}
+
+/**
+ * Spotify refused a request for a reason without a dedicated type (400, 413, ...)
+ * Only thrown for requests that opt in - by default those failures resolve to null.
+ */
+export class RequestRejectedError extends SpotifyApiError {
+  readonly kind = 'request-rejected' as const;
+
+  constructor(status: number, detail?: string) {
+    super(detail ? `Spotify rejected the request: ${detail}` : 'Spotify rejected the request.', {
+      status,
+      retryable: false,
+    });
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Map a failed Spotify response to a typed error
+ *
+ * @returns null for statuses without a dedicated error type
+ */
+export function createSpotifyError(
+  status: number,
+  body: SpotifyErrorBody | null,
+  url: string
+): SpotifyApiError | null {
+  const message = body?.error?.message ?? '';
+  const reason = body?.error?.reason ?? '';
+
+  switch (status) {
+    case 401:
+      return new TokenRevokedError();
+    case 403:
+      if (reason === 'PREMIUM_REQUIRED' || /premium required/i.test(message)) {
+        return new PremiumRequiredError();
+      }
+      if (/insufficient client scope/i.test(message)) {
+        return new InsufficientScopeError(message);
+      }
+      return null;
+    case 404:
+      if (reason === 'NO_ACTIVE_DEVICE' || /no active device/i.test(message)) {
+        return new NoActiveDeviceError();
+      }
+      return new NotFoundError(url);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether a thrown value is a typed Spotify error
+ */
+export function isSpotifyApiError(error: unknown): error is SpotifyApiError {
+  return error instanceof SpotifyApiError;
+}
+
+/**
+ * Whether an error means the user has to reconnect their Spotify account
+ */
+export function requiresReauthentication(error: unknown): boolean {
+  return error instanceof InsufficientScopeError || error instanceof TokenRevokedError;
+}
@@ -87,12 +87,14 @@ export async function getGlobalStats(): Promise<GlobalStats> {
     const results = await Promise.all(progressPromises);
 
     // Aggregate data
-    for (const { playlistId, progress, totalTracks } of results) {
+    for (const { playlistId, progress } of results) {
       if (!progress) continue;
 
-      // Calculate lifetime plays: (completed cycles × total tracks) + current cycle progress
+      // Calculate lifetime plays: (completed cycles × total songs) + current cycle progress
       // Example: Cycle 1, 105/210 played = (1 × 210) + 105 = 315 total
-      const lifetimePlays = (progress.cycleNumber * totalTracks) + progress.played;
+      // Songs = tracks with duplicate releases counted once
+      const totalSongs = progress.played + progress.remaining;
+      const lifetimePlays = (progress.cycleNumber * totalSongs) + progress.played;
 
       totalHeard += lifetimePlays;
       totalCycles += progress.cycleNumber;
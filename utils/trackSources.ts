@@ -0,0 +1,303 @@
+/**
+ * Track Sources
+ *
+ * Everything Flux can shuffle is a track source. A source is identified by
+ * the ID its smart shuffle memory is stored under (smart_shuffle_<sourceId>):
+ * - playlist: a playlist in the user's library (plain Spotify playlist ID)
+ * - liked-songs: the user's Liked Songs
+ * - blend: a Flux blend of several sources (blend:<id>)
+ * - saved-albums: every album saved in the library, as one pool
+ * - artist: a followed artist's albums and singles (artist:<artistId>)
+ * - shared-playlist: any public playlist added by URL (shared:<playlistId>)
+ *
+ * The prefixes keep each source's memory apart, e.g. an artist's catalog
+ * from a playlist that happens to hold the same tracks. Each kind has a
+ * provider that knows how to fetch its tracks; sources the user adds (saved
+ * albums, artists, shared playlists) are stored here like blends and listed
+ * on the home screen next to the user's playlists.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SpotifyService } from './spotify';
+import { resetPlaylistMemory } from './smartShuffle';
+import { getBlend, isBlendId, mergeBlendTracks, updateBlendTrackCount, LIKED_SONGS_SOURCE_ID } from './blends';
+import type { SpotifyArtist, SpotifyPlaylist, SpotifyTrack, SpotifyUser } from '@/types/spotify';
+
+const TRACK_SOURCES_KEY = 'track_sources';
+
+export const SAVED_ALBUMS_SOURCE_ID = 'saved-albums';
+export const ARTIST_SOURCE_PREFIX = 'artist:';
+export const SHARED_PLAYLIST_SOURCE_PREFIX = 'shared:';
+
+export type TrackSourceKind = 'playlist' | 'liked-songs' | 'blend' | 'saved-albums' | 'artist' | 'shared-playlist';
+
+/**
+ * Kinds the user adds from the home screen (stored in Flux, not in their Spotify library)
+ */
+export type AddedTrackSourceKind = Extract<TrackSourceKind, 'saved-albums' | 'artist' | 'shared-playlist'>;
+
+export interface AddedTrackSource {
+  id: string;
+  kind: AddedTrackSourceKind;
+  name: string;
+  description: string;
+  uri: string;                  // Spotify context URI, empty when there is none (saved albums)
+  imageUrl: string | null;
+  trackCount: number;           // Estimated until the first shuffle
+  addedAt: number;
+}
+
+export interface TrackSourceContext {
+  fetchSourceTracks: (sourceId: string) => Promise<SpotifyTrack[]>; // Resolve another source (used by blends)
+}
+
+export interface TrackSourceProvider {
+  kind: TrackSourceKind;
+  matches: (sourceId: string) => boolean;
+  fetchTracks: (sourceId: string, context: TrackSourceContext) => Promise<SpotifyTrack[]>;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+const likedSongsProvider: TrackSourceProvider = {
+  kind: 'liked-songs',
+  matches: sourceId => sourceId === LIKED_SONGS_SOURCE_ID,
+  fetchTracks: () => SpotifyService.getUserSavedTracks(),
+};
+
+const blendProvider: TrackSourceProvider = {
+  kind: 'blend',
+  matches: isBlendId,
+  fetchTracks: async (sourceId, context) => {
+    const blend = await getBlend(sourceId);
+    if (!blend) return [];
+
+    // Sources are fetched one after another to stay friendly with rate limits
+    const trackLists: SpotifyTrack[][] = [];
+    for (const blendSourceId of blend.sourceIds) {
+      trackLists.push(await context.fetchSourceTracks(blendSourceId));
+    }
+
+    const tracks = mergeBlendTracks(trackLists);
+    await updateBlendTrackCount(blend.id, tracks.length);
+    return tracks;
+  },
+};
+
+const savedAlbumsProvider: TrackSourceProvider = {
+  kind: 'saved-albums',
+  matches: sourceId => sourceId === SAVED_ALBUMS_SOURCE_ID,
+  fetchTracks: async sourceId => withCountUpdate(sourceId, await SpotifyService.getSavedAlbumTracks()),
+};
+
+const artistProvider: TrackSourceProvider = {
+  kind: 'artist',
+  matches: sourceId => sourceId.startsWith(ARTIST_SOURCE_PREFIX),
+  fetchTracks: async sourceId => withCountUpdate(
+    sourceId,
+    await SpotifyService.getArtistCatalogTracks(sourceId.slice(ARTIST_SOURCE_PREFIX.length))
+  ),
+};
+
+const sharedPlaylistProvider: TrackSourceProvider = {
+  kind: 'shared-playlist',
+  matches: sourceId => sourceId.startsWith(SHARED_PLAYLIST_SOURCE_PREFIX),
+  fetchTracks: async sourceId => withCountUpdate(
+    sourceId,
+    await SpotifyService.getPlaylistTracks(sourceId.slice(SHARED_PLAYLIST_SOURCE_PREFIX.length))
+  ),
+};
+
+// Anything without a known prefix is a playlist from the user's library
+const playlistProvider: TrackSourceProvider = {
+  kind: 'playlist',
+  matches: () => true,
+  fetchTracks: sourceId => SpotifyService.getPlaylistTracks(sourceId),
+};
+
+// Checked in order - the catch-all playlist provider must stay last
+const TRACK_SOURCE_PROVIDERS: TrackSourceProvider[] = [
+  likedSongsProvider,
+  blendProvider,
+  savedAlbumsProvider,
+  artistProvider,
+  sharedPlaylistProvider,
+  playlistProvider,
+];
+
+/**
+ * Get the provider that fetches a source's tracks
+ */
+export function getTrackSourceProvider(sourceId: string): TrackSourceProvider {
+  return TRACK_SOURCE_PROVIDERS.find(provider => provider.matches(sourceId)) ?? playlistProvider;
+}
+
+/**
+ * Check whether an ID refers to a source the user added in Flux
+ */
+export function isAddedTrackSourceId(sourceId: string): boolean {
+  const { kind } = getTrackSourceProvider(sourceId);
+  return kind === 'saved-albums' || kind === 'artist' || kind === 'shared-playlist';
+}
+
+// Keep the stored count accurate once the real tracks are known (progress ring on the home screen)
+async function withCountUpdate(sourceId: string, tracks: SpotifyTrack[]): Promise<SpotifyTrack[]> {
+  try {
+    const sources = await getTrackSources();
+    const source = sources.find(s => s.id === sourceId);
+
+    if (source && source.trackCount !== tracks.length) {
+      source.trackCount = tracks.length;
+      await saveTrackSources(sources);
+    }
+  } catch (error) {
+    console.error('[TrackSources] Failed to update track count:', error);
+  }
+
+  return tracks;
+}
+
+// ============================================================================
+// Added Sources
+// ============================================================================
+
+/**
+ * Get all added sources, oldest first
+ */
+export async function getTrackSources(): Promise<AddedTrackSource[]> {
+  try {
+    const json = await AsyncStorage.getItem(TRACK_SOURCES_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('[TrackSources] Failed to get sources:', error);
+    return [];
+  }
+}
+
+async function saveTrackSources(sources: AddedTrackSource[]): Promise<void> {
+  await AsyncStorage.setItem(TRACK_SOURCES_KEY, JSON.stringify(sources));
+}
+
+/**
+ * Add a source, replacing an earlier entry for the same ID
+ */
+export async function addTrackSource(source: AddedTrackSource): Promise<AddedTrackSource> {
+  const sources = await getTrackSources();
+  await saveTrackSources([...sources.filter(s => s.id !== source.id), source]);
+  return source;
+}
+
+/**
+ * Remove an added source together with its shuffle memory
+ */
+export async function removeTrackSource(sourceId: string): Promise<void> {
+  try {
+    const sources = await getTrackSources();
+    await saveTrackSources(sources.filter(source => source.id !== sourceId));
+    await resetPlaylistMemory(sourceId);
+  } catch (error) {
+    console.error('[TrackSources] Failed to remove source:', error);
+  }
+}
+
+/**
+ * Source for all saved albums (track count is filled in on the first shuffle)
+ */
+export function createSavedAlbumsSource(): AddedTrackSource {
+  return {
+    id: SAVED_ALBUMS_SOURCE_ID,
+    kind: 'saved-albums',
+    name: 'Saved Albums',
+    description: 'Every album in your library',
+    uri: '',
+    imageUrl: null,
+    trackCount: 0,
+    addedAt: Date.now(),
+  };
+}
+
+/**
+ * Source for a followed artist's catalog (track count is filled in on the first shuffle)
+ */
+export function createArtistSource(artist: SpotifyArtist): AddedTrackSource {
+  return {
+    id: `${ARTIST_SOURCE_PREFIX}${artist.id}`,
+    kind: 'artist',
+    name: artist.name,
+    description: `Albums and singles by ${artist.name}`,
+    uri: artist.uri,
+    imageUrl: artist.images?.[0]?.url ?? null,
+    trackCount: 0,
+    addedAt: Date.now(),
+  };
+}
+
+/**
+ * Source for a public playlist that isn't in the user's library
+ */
+export function createSharedPlaylistSource(playlist: SpotifyPlaylist): AddedTrackSource {
+  return {
+    id: `${SHARED_PLAYLIST_SOURCE_PREFIX}${playlist.id}`,
+    kind: 'shared-playlist',
+    name: playlist.name,
+    description: `Shared playlist by ${playlist.owner?.display_name ?? 'someone else'}`,
+    uri: playlist.uri,
+    imageUrl: playlist.images?.[0]?.url ?? null,
+    trackCount: playlist.tracks?.total ?? 0,
+    addedAt: Date.now(),
+  };
+}
+
+/**
+ * Extract the playlist ID from a Spotify playlist link or URI
+ * Accepts https://open.spotify.com/playlist/<id>?si=..., spotify:playlist:<id> and bare IDs
+ *
+ * @returns The playlist ID, or null if the input isn't a playlist reference
+ */
+export function parsePlaylistReference(input: string): string | null {
+  const trimmed = input.trim();
+  const match =
+    trimmed.match(/open\.spotify\.com\/(?:intl-[a-z-]+\/)?playlist\/([A-Za-z0-9]+)/) ??
+    trimmed.match(/^spotify:playlist:([A-Za-z0-9]+)$/) ??
+    trimmed.match(/^([A-Za-z0-9]{22})$/);
+
+  return match ? match[1] : null;
+}
+
+/**
+ * Create a synthetic playlist for an added source so it can be listed and shuffled like any playlist
+ */
+export function createTrackSourcePlaylist(source: AddedTrackSource, user: SpotifyUser): SpotifyPlaylist {
+  return {
+    collaborative: false,
+    description: source.description,
+    external_urls: {
+      spotify: '',
+    },
+    href: '',
+    id: source.id,
+    images: source.imageUrl ? [{ url: source.imageUrl, height: 300, width: 300 }] : [],
+    name: source.name,
+    owner: {
+      display_name: source.kind === 'artist' ? 'Artist' : source.kind === 'saved-albums' ? 'Your albums' : 'Shared playlist',
+      external_urls: {
+        spotify: `https://open.spotify.com/user/${user.id}`
+      },
+      href: `https://api.spotify.com/v1/users/${user.id}`,
+      id: user.id,
+      type: 'user' as const,
+      uri: `spotify:user:${user.id}`
+    },
+    primary_color: null,
+    public: false,
+    snapshot_id: `${source.id}-snapshot`,
+    tracks: {
+      href: '',
+      total: source.trackCount,
+    },
+    type: 'playlist' as const,
+    uri: source.uri,
+  };
+}